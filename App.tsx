@@ -1,100 +1,433 @@
-import React, { useState, useCallback } from 'react';
-import { Airport, FlightState } from './types';
-import { calculateDistance, calculateEmissions } from './utils/calculator';
-import { generateEcoPlan } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Airport, CalculatorUrlState, CarbonBudgets, ChatMessage, EcoPlanRequest, EmissionOptions, OffsetCatalogue, OffsetPricing, PartialEcoPlan, TripLogEntry, TripResult } from './types';
+import { DEFAULT_EMISSION_OPTIONS } from './utils/calculator';
+import { calculateTrip, getItineraryKey, getOutboundLegs, getTripEmissionOptions, getTripEndpoints } from './utils/itinerary';
+import { buildAirportGraph } from './utils/routePlanner';
+import { buildAirportIndex, findAirportByIata } from './utils/airportSearch';
+import { createEcoTools } from './utils/ecoTools';
+import { getSavedCarbonBudgets, getSavedTripLog, saveCarbonBudgets, saveTripLog } from './utils/tripLog';
+import { readCalculatorState, writeCalculatorState } from './utils/urlState';
+import { getPricingCurrency, getSavedOffsetCatalogue, getSavedOffsetCurrency, saveOffsetCatalogue, saveOffsetCurrency } from './utils/offsets';
+import { AIRPORTS, DEFAULT_OFFSET_CATALOGUE } from './constants';
+import { generatePlanWithFallback, sendChatWithFallback } from './services/ecoPlanProviders';
+import { loadAirports } from './services/airportService';
+import { loadOffsetCatalogue } from './services/offsetCatalogueService';
 import Header from './components/Header';
 import AirportInputForm from './components/AirportInputForm';
 import CalculationResult from './components/CalculationResult';
+import RoutePlanner from './components/RoutePlanner';
 import LiveFlightsDisplay from './components/LiveFlightsDisplay';
+import TripLog from './components/TripLog';
+import BatchImport from './components/BatchImport';
 
 export default function App(): React.ReactElement {
-  // State for the selected airports
-  const [fromAirport, setFromAirport] = useState<Airport | null>(null);
-  const [toAirport, setToAirport] = useState<Airport | null>(null);
+  // State for the itinerary: an ordered list of airports (origin, stopovers, destination).
+  // A slot is null until the user picks an airport for it.
+  const [stops, setStops] = useState<(Airport | null)[]>([null, null]);
+  const [roundTrip, setRoundTrip] = useState<boolean>(false);
+  const [passengers, setPassengers] = useState<number>(1);
+
+  // State for the assumptions behind the estimate (cabin class, radiative forcing)
+  const [emissionOptions, setEmissionOptions] = useState<EmissionOptions>(DEFAULT_EMISSION_OPTIONS);
+
+  // State for the airport dataset. We start with the built-in list and swap in the full dataset once it loads.
+  const [airports, setAirports] = useState<Airport[]>(AIRPORTS);
+  // Whether loading the full dataset has finished, successfully or not.
+  const [airportsSettled, setAirportsSettled] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadAirports()
+      .then(loaded => {
+        if (loaded.length > 0) setAirports(loaded);
+      })
+      .catch(e => console.error('Error loading airport dataset, using the built-in list instead:', e))
+      .finally(() => setAirportsSettled(true));
+  }, []);
+
+  // The search index used by the airport inputs, rebuilt only when the dataset changes.
+  const airportIndex = useMemo(() => buildAirportIndex(airports), [airports]);
+
+  // The route planner's graph. Building it is O(n²), so we only connect the large hub airports;
+  // the chosen origin and destination are added to it by the planner if they are smaller airports.
+  const airportGraph = useMemo(
+    () => buildAirportGraph(airports.filter(airport => airport.type === 'large_airport')),
+    [airports]
+  );
 
   // State for the calculation results
-  const [distance, setDistance] = useState<number | null>(null);
-  const [emissions, setEmissions] = useState<number | null>(null);
+  const [trip, setTrip] = useState<TripResult | null>(null);
+  const [calculatedAt, setCalculatedAt] = useState<number>(0); // ms since epoch, for exports
+
+  // The personal trip log and yearly carbon budgets, kept in the browser between visits.
+  const [tripLog, setTripLog] = useState<TripLogEntry[]>(getSavedTripLog);
+  const [carbonBudgets, setCarbonBudgets] = useState<CarbonBudgets>(getSavedCarbonBudgets);
+
+  useEffect(() => {
+    saveTripLog(tripLog);
+  }, [tripLog]);
+
+  useEffect(() => {
+    saveCarbonBudgets(carbonBudgets);
+  }, [carbonBudgets]);
+
+  // The carbon offset prices: a catalogue the user loaded, or else the bundled one (the built-in copy until it loads),
+  // and the currency costs are shown in. The user's choices are kept between visits.
+  const [customCatalogue, setCustomCatalogue] = useState<OffsetCatalogue | null>(getSavedOffsetCatalogue);
+  const [bundledCatalogue, setBundledCatalogue] = useState<OffsetCatalogue>(DEFAULT_OFFSET_CATALOGUE);
+  const [currency, setCurrency] = useState<string>(() => getSavedOffsetCurrency('NPR'));
+
+  useEffect(() => {
+    loadOffsetCatalogue()
+      .then(setBundledCatalogue)
+      .catch(e => console.error('Error loading offset price catalogue, using the built-in prices instead:', e));
+  }, []);
+
+  useEffect(() => {
+    saveOffsetCatalogue(customCatalogue);
+  }, [customCatalogue]);
+
+  useEffect(() => {
+    saveOffsetCurrency(currency);
+  }, [currency]);
+
+  const offsetPricing = useMemo<OffsetPricing>(
+    () => ({ catalogue: customCatalogue ?? bundledCatalogue, currency }),
+    [customCatalogue, bundledCatalogue, currency]
+  );
 
   // State for the AI-generated eco-friendly travel plan
-  const [ecoPlan, setEcoPlan] = useState<string>('');
+  // (shown while it streams in, then replaced by the complete plan)
+  const [ecoPlan, setEcoPlan] = useState<PartialEcoPlan | null>(null);
   const [isGeneratingPlan, setIsGeneratingPlan] = useState<boolean>(false);
+  const [planStopped, setPlanStopped] = useState<boolean>(false);
+  // Which provider (Gemini, a local model or the built-in tips) is writing the plan on screen.
+  const [planProvider, setPlanProvider] = useState<string | null>(null);
+  // The plan request that is allowed to update the screen. Older requests are aborted and their output ignored.
+  const planRequestRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string>('');
+
+  // Follow-up conversations about the eco-plan, one per itinerary (see getItineraryKey),
+  // so going back to an earlier trip brings its conversation back.
+  const [chatHistories, setChatHistories] = useState<Record<string, ChatMessage[]>>({});
+  // The itinerary whose question is being answered, and the last error, for the itinerary it happened on.
+  const [chatPendingKey, setChatPendingKey] = useState<string | null>(null);
+  const [chatError, setChatError] = useState<{ key: string; message: string } | null>(null);
+  const chatRequestRef = useRef<AbortController | null>(null);
   
+  // Stops any plan being generated. Its output so far stays on screen unless the caller clears it.
+  const stopPlanGeneration = () => {
+    planRequestRef.current?.abort();
+    planRequestRef.current = null;
+    setIsGeneratingPlan(false);
+  };
+
+  // A plan being generated is for the airports it was started with, so drop it if the user changes them.
+  useEffect(() => {
+    if (planRequestRef.current) {
+      stopPlanGeneration();
+      setEcoPlan(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stops]);
+
+  // Stop streaming if the page is closed mid-generation.
+  useEffect(() => () => {
+    planRequestRef.current?.abort();
+    chatRequestRef.current?.abort();
+  }, []);
+
   // This function is called when the user wants to calculate emissions.
   const handleCalculate = useCallback(() => {
     // Reset previous results and errors
-    setDistance(null);
-    setEmissions(null);
-    setEcoPlan('');
+    stopPlanGeneration();
+    setTrip(null);
+    setEcoPlan(null);
+    setError('');
+
+    // Check that every stop has an airport selected
+    if (stops.some(stop => stop === null)) {
+      setError('Please select an airport for every stop of your trip.');
+      return;
+    }
+    const selectedStops = stops as Airport[];
+    if (selectedStops.some((stop, i) => i > 0 && stop.iata === selectedStops[i - 1].iata)) {
+      setError('Two consecutive stops cannot be the same airport.');
+      return;
+    }
+
+    // Calculate the distance and CO2 emissions of every leg, plus the trip totals
+    setTrip(calculateTrip({ stops: selectedStops, roundTrip, passengers }, emissionOptions));
+    setCalculatedAt(Date.now());
+    // Add the calculation to the browser history, so it can be shared as a link and returned to with Back.
+    writeCalculatorState({ route: selectedStops.map(stop => stop.iata), roundTrip, passengers, emissionOptions }, 'push');
+  }, [stops, roundTrip, passengers, emissionOptions]);
+
+  // The cabin class and radiative forcing the calculated trip used. The form's settings may have changed since,
+  // so the route planner compares routes (and recalculates the chosen one) with these instead.
+  const tripEmissionOptions = useMemo(() => (trip ? getTripEmissionOptions(trip) : emissionOptions), [trip, emissionOptions]);
+
+  // Replaces the itinerary with a route picked in the route planner and recalculates it straight away.
+  const handleUseRoute = (routeStops: Airport[]) => {
+    setStops(routeStops);
+    stopPlanGeneration();
+    setEcoPlan(null);
+    setError('');
+    setTrip(calculateTrip({ stops: routeStops, roundTrip, passengers }, tripEmissionOptions));
+    setCalculatedAt(Date.now());
+    writeCalculatorState({ route: routeStops.map(stop => stop.iata), roundTrip, passengers, emissionOptions: tripEmissionOptions }, 'push');
+  };
+
+  // A calculation from the page address (a shared link, or the Back and Forward buttons) waiting to be shown.
+  // Its airports may only be in the full dataset, so it waits for that to load. A null state is an empty calculator.
+  const [initialUrlState] = useState<CalculatorUrlState | null>(readCalculatorState);
+  const pendingUrlStateRef = useRef<{ state: CalculatorUrlState | null } | null>(initialUrlState ? { state: initialUrlState } : null);
+
+  // Shows the calculation waiting in pendingUrlStateRef, once its airports can be found.
+  // It doesn't add a history entry, since the address already holds it.
+  const showPendingUrlState = () => {
+    const pending = pendingUrlStateRef.current;
+    if (!pending) return;
+    const { state } = pending;
+    const resolvedStops = state ? state.route.map(code => findAirportByIata(airportIndex, code) ?? null) : [];
+    if (resolvedStops.some(stop => stop === null) && !airportsSettled) return;
+    pendingUrlStateRef.current = null;
+
+    stopPlanGeneration();
+    setEcoPlan(null);
     setError('');
+    setRoundTrip(state?.roundTrip ?? false);
+    setPassengers(state?.passengers ?? 1);
+    setEmissionOptions(state?.emissionOptions ?? DEFAULT_EMISSION_OPTIONS);
+    if (!state) {
+      setStops([null, null]);
+      setTrip(null);
+      return;
+    }
 
-    // Check if both airports are selected
-    if (fromAirport && toAirport) {
-      // Calculate distance using the Haversine formula
-      const dist = calculateDistance(fromAirport.latitude, fromAirport.longitude, toAirport.latitude, toAirport.longitude);
-      setDistance(dist);
-      
-      // Calculate CO2 emissions based on the distance
-      const co2 = calculateEmissions(dist);
-      setEmissions(co2);
-    } else {
-      setError('Please select both a departure and an arrival airport.');
+    setStops(resolvedStops);
+    const unknownCodes = state.route.filter((_, i) => resolvedStops[i] === null);
+    if (unknownCodes.length > 0) {
+      setTrip(null);
+      setError(`Couldn't find the airport ${unknownCodes.join(', ')} from the link.`);
+      return;
     }
-  }, [fromAirport, toAirport]);
+    setTrip(calculateTrip({ stops: resolvedStops as Airport[], roundTrip: state.roundTrip, passengers: state.passengers }, state.emissionOptions));
+    setCalculatedAt(Date.now());
+  };
+
+  // Show a shared link's calculation once the airports load, and follow the browser's Back and Forward buttons.
+  useEffect(() => {
+    showPendingUrlState();
+    const handlePopState = () => {
+      pendingUrlStateRef.current = { state: readCalculatorState() };
+      showPendingUrlState();
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [airportIndex, airportsSettled]);
+
+  // The outbound legs of the calculated trip, so the live tracker can highlight aircraft flying the same route.
+  const routeLegs = useMemo(() => (trip ? getOutboundLegs(trip) : []), [trip]);
 
-  // This function calls the Gemini API to get an eco-friendly travel plan.
+  // The first and last airport of the outbound journey, used by the route planner and the eco-plan.
+  const { origin: tripOrigin, destination: tripDestination } = trip ? getTripEndpoints(trip) : { origin: null, destination: null };
+
+  // Details about the trip (per passenger) for the eco-plan and the follow-up conversation.
+  const planRequest: EcoPlanRequest | null = trip && tripOrigin && tripDestination
+    ? {
+        from: tripOrigin,
+        to: tripDestination,
+        legs: getOutboundLegs(trip),
+        roundTrip: trip.roundTrip,
+        distance: trip.totalDistance,
+        emissions: trip.emissionsPerPassenger,
+      }
+    : null;
+
+  // Which conversation belongs to the calculated trip.
+  const itineraryKey = trip ? getItineraryKey(trip) : null;
+
+  // The calculations the assistant can run, using the assumptions the trip was calculated with.
+  const ecoTools = useMemo(
+    () => createEcoTools(airportIndex, trip ? getTripEmissionOptions(trip) : DEFAULT_EMISSION_OPTIONS),
+    [airportIndex, trip]
+  );
+
+  // This function asks the first available provider for an eco-friendly travel plan, showing it as it streams in.
+  // If a provider fails, the next one takes over, ending with the built-in tips that always work offline.
   const handleGeneratePlan = async () => {
-    if (!fromAirport || !toAirport || !distance || !emissions) return;
+    if (!planRequest) return;
+
+    stopPlanGeneration();
+    const request = new AbortController();
+    planRequestRef.current = request;
+    const isCurrent = () => planRequestRef.current === request;
 
     setIsGeneratingPlan(true);
+    setPlanStopped(false);
     setError('');
-    setEcoPlan('');
+    setEcoPlan(null);
+    setPlanProvider(null);
 
     try {
-      // Call the Gemini service with details about the flight
-      const plan = await generateEcoPlan(fromAirport, toAirport, distance, emissions);
-      setEcoPlan(plan);
+      const { plan } = await generatePlanWithFallback(
+        planRequest,
+        {
+          signal: request.signal,
+          onProgress: (partial) => {
+            if (isCurrent()) setEcoPlan(partial);
+          },
+        },
+        (provider) => {
+          // A new provider starts from scratch, so clear anything a failed one left behind.
+          if (!isCurrent()) return;
+          setEcoPlan(null);
+          setPlanProvider(provider.label);
+        }
+      );
+      if (isCurrent()) setEcoPlan(plan);
     } catch (e) {
+      // A cancelled or replaced request isn't an error worth showing.
+      if (request.signal.aborted || !isCurrent()) return;
       console.error('Error generating eco plan:', e);
       setError('Could not generate AI eco-plan. Please try again.');
     } finally {
-      setIsGeneratingPlan(false);
+      if (isCurrent()) {
+        planRequestRef.current = null;
+        setIsGeneratingPlan(false);
+      }
     }
   };
 
+  // Called when the user presses Cancel while the plan is being written.
+  const handleCancelPlan = () => {
+    stopPlanGeneration();
+    setPlanStopped(true);
+  };
+
+  // Sends a follow-up question about the trip. The answer is added to the conversation of the itinerary it was
+  // asked about, even if the user has moved on to another trip in the meantime.
+  const handleSendChat = async (text: string) => {
+    if (!planRequest || !itineraryKey) return;
+    const key = itineraryKey;
+    const history: ChatMessage[] = [
+      ...(chatHistories[key] ?? []),
+      { id: `user-${Date.now().toString(36)}`, role: 'user', text },
+    ];
+    setChatHistories(prev => ({ ...prev, [key]: history }));
+
+    chatRequestRef.current?.abort();
+    const request = new AbortController();
+    chatRequestRef.current = request;
+    setChatPendingKey(key);
+    setChatError(null);
+
+    try {
+      const { message } = await sendChatWithFallback(
+        { trip: planRequest, plan: ecoPlan, history, tools: ecoTools },
+        { signal: request.signal }
+      );
+      setChatHistories(prev => ({ ...prev, [key]: [...(prev[key] ?? []), message] }));
+    } catch (e) {
+      if (request.signal.aborted) return;
+      console.error('Error answering eco-plan question:', e);
+      setChatError({ key, message: e instanceof Error ? e.message : 'Could not answer that question. Please try again.' });
+    } finally {
+      if (chatRequestRef.current === request) {
+        chatRequestRef.current = null;
+        setChatPendingKey(null);
+      }
+    }
+  };
+
+  // Called when the user presses Cancel while a question is being answered.
+  const handleCancelChat = () => {
+    chatRequestRef.current?.abort();
+    chatRequestRef.current = null;
+    setChatPendingKey(null);
+  };
+
   return (
     <div className="min-h-screen bg-black text-white font-sans">
-      <Header />
+      <Header
+        currencies={offsetPricing.catalogue.currencies.map(option => option.code)}
+        currency={getPricingCurrency(offsetPricing).code}
+        onCurrencyChange={setCurrency}
+      />
       <main className="container mx-auto p-4 md:p-8 space-y-8">
         {/* Section 1: CO2 Calculator */}
         <div className="bg-gray-900 p-6 rounded-xl shadow-md border border-gray-700">
           <h2 className="text-2xl font-bold text-gray-100 mb-4">✈️ Flight CO₂ Calculator</h2>
           <AirportInputForm
-            fromAirport={fromAirport}
-            setFromAirport={setFromAirport}
-            toAirport={toAirport}
-            setToAirport={setToAirport}
+            airportIndex={airportIndex}
+            stops={stops}
+            setStops={setStops}
+            roundTrip={roundTrip}
+            setRoundTrip={setRoundTrip}
+            passengers={passengers}
+            setPassengers={setPassengers}
+            emissionOptions={emissionOptions}
+            setEmissionOptions={setEmissionOptions}
             onCalculate={handleCalculate}
           />
           {error && <p className="text-red-500 mt-4 text-center">{error}</p>}
           
           {/* Display the calculation result and eco tips */}
           <CalculationResult 
-            emissions={emissions} 
+            trip={trip}
+            calculatedAt={calculatedAt}
             isGeneratingPlan={isGeneratingPlan}
             ecoPlan={ecoPlan}
             onGeneratePlan={handleGeneratePlan}
-            showPlanGenerator={!!emissions}
+            onCancelPlan={handleCancelPlan}
+            planStopped={planStopped}
+            planProvider={planProvider}
+            chatMessages={(itineraryKey && chatHistories[itineraryKey]) || []}
+            isChatting={chatPendingKey !== null && chatPendingKey === itineraryKey}
+            chatError={chatError && chatError.key === itineraryKey ? chatError.message : ''}
+            onSendChat={handleSendChat}
+            onCancelChat={handleCancelChat}
+            showPlanGenerator={!!trip}
+            offsetPricing={offsetPricing}
+            isCustomCatalogue={customCatalogue !== null}
+            onCatalogueChange={setCustomCatalogue}
           />
+
+          {/* Compare the chosen route with connections through other airports */}
+          {tripOrigin && tripDestination && tripOrigin.iata !== tripDestination.iata && (
+            <div className="mt-6">
+              <RoutePlanner
+                graph={airportGraph}
+                fromAirport={tripOrigin}
+                toAirport={tripDestination}
+                emissionOptions={tripEmissionOptions}
+                onUseRoute={handleUseRoute}
+              />
+            </div>
+          )}
         </div>
 
-        {/* Section 2: Live Flight Tracker */}
-        <LiveFlightsDisplay />
+        {/* Section 2: Trip Log & Carbon Budget */}
+        <TripLog
+          entries={tripLog}
+          onEntriesChange={setTripLog}
+          budgets={carbonBudgets}
+          onBudgetsChange={setCarbonBudgets}
+          trip={trip}
+          airportIndex={airportIndex}
+          offsetPricing={offsetPricing}
+        />
+
+        {/* Section 3: Batch Import */}
+        <BatchImport airportIndex={airportIndex} emissionOptions={emissionOptions} offsetPricing={offsetPricing} />
+
+        {/* Section 4: Live Flight Tracker */}
+        <LiveFlightsDisplay routeLegs={routeLegs} />
       </main>
       <footer className="text-center p-4 text-gray-500 text-sm">
         <p>EcoFly &copy; 2024 - Promoting Sustainable Air Travel for Imagine Cup 2026</p>
       </footer>
     </div>
   );
-}
\ No newline at end of file
+}
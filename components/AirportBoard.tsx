@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { AirportEvent, AirportEventType } from '../types';
+
+// Define the properties this component expects to receive.
+interface AirportBoardProps {
+  events: AirportEvent[]; // newest first
+}
+
+// How each event is described on the board.
+const EVENT_LABELS: Record<AirportEventType, string> = {
+  takeoff: '🛫 Departed',
+  landing: '🛬 Landed',
+  approach: '⬇️ On approach',
+  overflight: '➡️ Overflight',
+};
+
+// How many rows each column shows.
+const MAX_ROWS = 8;
+
+// Formats a height above the airport in feet, as pilots and airport boards do.
+const formatHeight = (meters: number | null): string =>
+  meters === null ? '' : `${Math.max(0, Math.round(meters * 3.28084)).toLocaleString()} ft`;
+
+// One column of the board.
+const BoardColumn: React.FC<{ title: string; events: AirportEvent[]; showAirport: boolean }> = ({ title, events, showAirport }) => (
+  <div>
+    <h4 className="font-semibold text-gray-200 mb-2">{title}</h4>
+    {events.length === 0 ? (
+      <p className="text-xs text-gray-500">Nothing yet.</p>
+    ) : (
+      <ul className="space-y-1">
+        {events.slice(0, MAX_ROWS).map(event => (
+          <li key={event.id} className="flex justify-between gap-2 text-xs">
+            <span className="font-mono text-gray-400">{new Date(event.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            <span className="font-mono text-white">{event.callsign}</span>
+            {showAirport && <span className="text-gray-400">{event.airport.iata}</span>}
+            <span className="text-gray-300 flex-1 text-right">
+              {EVENT_LABELS[event.type]}
+              {event.type !== 'landing' && event.type !== 'takeoff' && (
+                <span className="text-gray-500"> {formatHeight(event.altitude)}</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+// A rolling arrivals and departures board, built from the takeoffs and landings seen by the live tracker.
+export default function AirportBoard({ events }: AirportBoardProps): React.ReactElement {
+  const [selectedIata, setSelectedIata] = useState<string>('all');
+
+  // The airports that have had any activity, for the selector.
+  const airports = useMemo(() => {
+    const seen = new Map(events.map(event => [event.airport.iata, event.airport]));
+    return [...seen.values()].sort((a, b) => a.iata.localeCompare(b.iata));
+  }, [events]);
+
+  const shown = selectedIata === 'all' ? events : events.filter(event => event.airport.iata === selectedIata);
+  const showAirport = selectedIata === 'all';
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-gray-100">🛬 Arrivals & Departures 🛫</h3>
+        <select
+          value={selectedIata}
+          onChange={(e) => setSelectedIata(e.target.value)}
+          aria-label="Airport"
+          className="p-1 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm"
+        >
+          <option value="all">All airports</option>
+          {airports.map(airport => (
+            <option key={airport.iata} value={airport.iata}>{airport.iata} – {airport.city}</option>
+          ))}
+        </select>
+      </div>
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Takeoffs, landings and approaches at known airports will appear here as aircraft are tracked.
+        </p>
+      ) : (
+        <div className="grid md:grid-cols-3 gap-4">
+          <BoardColumn title="Arrivals" events={shown.filter(e => e.type === 'landing' || e.type === 'approach')} showAirport={showAirport} />
+          <BoardColumn title="Departures" events={shown.filter(e => e.type === 'takeoff')} showAirport={showAirport} />
+          <BoardColumn title="Overflights" events={shown.filter(e => e.type === 'overflight')} showAirport={showAirport} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Airport } from '../types';
+import { AirportIndex, findAirportByIata, searchAirports, tokenize } from '../utils/airportSearch';
+import { addRecentAirportCode, getRecentAirportCodes } from '../utils/recentAirports';
+
+// Define the properties this component expects to receive.
+interface AirportComboboxProps {
+  airportIndex: AirportIndex;
+  value: Airport | null;
+  onChange: (airport: Airport | null) => void;
+  placeholder: string;
+  label: string;
+}
+
+// How many suggestions we show at once.
+const MAX_SUGGESTIONS = 8;
+
+// The text shown in the input once an airport is selected.
+const formatAirportLabel = (airport: Airport): string => `${airport.name} (${airport.iata})`;
+
+/**
+ * Renders text with the parts that match the query in bold.
+ * A word is highlighted from its start for as many letters as the query word that matched it.
+ */
+const HighlightedText: React.FC<{ text: string; queryTokens: string[] }> = ({ text, queryTokens }) => {
+  if (queryTokens.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0];
+    const [normalised] = tokenize(word);
+    const queryToken = normalised ? queryTokens.find(token => normalised.startsWith(token)) : undefined;
+    if (!queryToken) continue;
+
+    const start = match.index ?? 0;
+    const end = start + Math.min(queryToken.length, word.length);
+    parts.push(text.slice(lastIndex, start));
+    parts.push(<mark key={start} className="bg-transparent text-green-400 font-bold">{text.slice(start, end)}</mark>);
+    lastIndex = end;
+  }
+  parts.push(text.slice(lastIndex));
+  return <>{parts}</>;
+};
+
+// An accessible airport picker following the WAI-ARIA combobox pattern:
+// type to search (typos are tolerated), use the arrow keys to move, Enter to pick and Escape to close.
+export default function AirportCombobox({
+  airportIndex,
+  value,
+  onChange,
+  placeholder,
+  label,
+}: AirportComboboxProps): React.ReactElement {
+  // The text in the input. Once an airport is picked, it holds that airport's label but stays editable.
+  const [query, setQuery] = useState<string>(value ? formatAirportLabel(value) : '');
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  // The suggestion highlighted with the arrow keys, or -1 when none is.
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [recentCodes, setRecentCodes] = useState<string[]>(() => getRecentAirportCodes());
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+  const labelId = useId();
+
+  // The airport this combobox last reported through onChange, so its own changes can be told apart from outside ones.
+  const reportedValueRef = useRef<Airport | null | undefined>(undefined);
+
+  // Tells the parent about a new airport (or null once the user edits or clears the text).
+  const reportChange = (airport: Airport | null) => {
+    reportedValueRef.current = airport;
+    onChange(airport);
+  };
+
+  // Keep the input in sync when the airport is changed from outside (e.g. by the route planner, or Back and Forward).
+  // Our own changes are skipped, so clearing the selection by typing doesn't wipe what the user typed.
+  useEffect(() => {
+    const isOwnChange = value === reportedValueRef.current;
+    reportedValueRef.current = undefined;
+    if (!isOwnChange) setQuery(value ? formatAirportLabel(value) : '');
+  }, [value]);
+
+  const recentAirports = useMemo(
+    () => recentCodes.map(code => findAirportByIata(airportIndex, code)).filter((a): a is Airport => !!a),
+    [recentCodes, airportIndex]
+  );
+
+  // While the input shows the selected airport's label we offer the recent airports instead of searching for the label.
+  const isShowingSelection = value !== null && query === formatAirportLabel(value);
+  const searchText = isShowingSelection ? '' : query;
+  const queryTokens = useMemo(() => tokenize(searchText), [searchText]);
+
+  // The suggestions: recent airports when the input is empty, otherwise search results with recent ones first.
+  const suggestions = useMemo(() => {
+    if (queryTokens.length === 0) return recentAirports;
+    const results = searchAirports(airportIndex, searchText, MAX_SUGGESTIONS);
+    const isRecent = (airport: Airport) => recentCodes.includes(airport.iata);
+    return [...results.filter(isRecent), ...results.filter(airport => !isRecent(airport))];
+  }, [airportIndex, searchText, queryTokens, recentAirports, recentCodes]);
+
+  const showList = isOpen && suggestions.length > 0;
+
+  const selectAirport = (airport: Airport) => {
+    reportChange(airport);
+    setQuery(formatAirportLabel(airport));
+    setRecentCodes(addRecentAirportCode(airport.iata));
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
+    // Editing the text means the previously picked airport no longer applies.
+    if (value) reportChange(null);
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    reportChange(null);
+    setIsOpen(false);
+    setActiveIndex(-1);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!isOpen) {
+          setIsOpen(true);
+          setActiveIndex(0);
+        } else if (suggestions.length > 0) {
+          setActiveIndex((activeIndex + 1) % suggestions.length);
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (suggestions.length > 0) {
+          setIsOpen(true);
+          setActiveIndex(activeIndex <= 0 ? suggestions.length - 1 : activeIndex - 1);
+        }
+        break;
+      case 'Enter':
+        if (showList && activeIndex >= 0) {
+          e.preventDefault();
+          selectAirport(suggestions[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        // The first Escape closes the list; a second one clears the input.
+        if (showList) {
+          e.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        } else if (query) {
+          e.preventDefault();
+          handleClear();
+        }
+        break;
+      case 'Tab':
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  return (
+    <div className="relative w-full">
+      <label id={labelId} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+      <div className="relative">
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-labelledby={labelId}
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listboxId}
+          aria-activedescendant={showList && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+          autoComplete="off"
+          placeholder={placeholder}
+          value={query}
+          onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => {
+            // Another input may have added a recent airport since this one was last used.
+            setRecentCodes(getRecentAirportCodes());
+            setIsOpen(true);
+          }}
+          onBlur={() => setIsOpen(false)}
+          className="w-full p-3 pr-10 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-green-500 focus:border-transparent transition"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={handleClear}
+            aria-label={`Clear ${label}`}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-labelledby={labelId}
+        hidden={!showList}
+        className="absolute z-10 w-full bg-gray-800 border border-gray-600 rounded-lg mt-1 max-h-60 overflow-y-auto shadow-lg"
+      >
+        {showList && queryTokens.length === 0 && (
+          <li role="presentation" className="px-3 pt-2 text-xs uppercase tracking-wide text-gray-500">Recent</li>
+        )}
+        {showList && suggestions.map((airport, index) => (
+          <li
+            key={airport.iata}
+            id={optionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Prevent the input from losing focus (and closing the list) before the click registers.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => selectAirport(airport)}
+            onMouseEnter={() => setActiveIndex(index)}
+            className={`p-3 cursor-pointer ${index === activeIndex ? 'bg-gray-700' : ''}`}
+          >
+            {recentCodes.includes(airport.iata) && <span className="mr-1" aria-hidden="true">🕘</span>}
+            <HighlightedText text={airport.name} queryTokens={queryTokens} />,{' '}
+            <HighlightedText text={airport.city} queryTokens={queryTokens} />{' '}
+            (<HighlightedText text={airport.iata} queryTokens={queryTokens} />)
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
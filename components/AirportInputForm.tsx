@@ -1,109 +1,162 @@
 import React, { useState } from 'react';
-import { Airport } from '../types';
-import { AIRPORTS } from '../constants';
+import { Airport, CabinClass, EmissionOptions } from '../types';
+import { CABIN_CLASSES } from '../constants';
+import { MAX_ITINERARY_STOPS } from '../utils/itinerary';
+import { AirportIndex } from '../utils/airportSearch';
+import AirportCombobox from './AirportCombobox';
 
 // Define the properties that this component receives from its parent (App.tsx)
 interface AirportInputFormProps {
-  fromAirport: Airport | null;
-  setFromAirport: (airport: Airport | null) => void;
-  toAirport: Airport | null;
-  setToAirport: (airport: Airport | null) => void;
+  airportIndex: AirportIndex;
+  stops: (Airport | null)[];
+  setStops: (stops: (Airport | null)[]) => void;
+  roundTrip: boolean;
+  setRoundTrip: (roundTrip: boolean) => void;
+  passengers: number;
+  setPassengers: (passengers: number) => void;
+  emissionOptions: EmissionOptions;
+  setEmissionOptions: (options: EmissionOptions) => void;
   onCalculate: () => void;
 }
 
-// A reusable input component with autocomplete functionality
-const AutocompleteInput: React.FC<{
-  value: Airport | null;
-  onChange: (airport: Airport | null) => void;
-  placeholder: string;
-}> = ({ value, onChange, placeholder }) => {
-  const [query, setQuery] = useState('');
-  const [suggestions, setSuggestions] = useState<Airport[]>([]);
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newQuery = e.target.value;
-    setQuery(newQuery);
-    if (newQuery.length > 0) {
-      const filtered = AIRPORTS.filter(airport =>
-        airport.name.toLowerCase().includes(newQuery.toLowerCase()) ||
-        airport.city.toLowerCase().includes(newQuery.toLowerCase()) ||
-        airport.iata.toLowerCase().includes(newQuery.toLowerCase())
-      );
-      setSuggestions(filtered);
-    } else {
-      setSuggestions([]);
-      onChange(null);
-    }
-  };
-
-  const handleSelectSuggestion = (airport: Airport) => {
-    setQuery(`${airport.name} (${airport.iata})`);
-    onChange(airport);
-    setSuggestions([]);
-  };
-
-  return (
-    <div className="relative w-full">
-      <input
-        type="text"
-        placeholder={placeholder}
-        value={value ? `${value.name} (${value.iata})` : query}
-        onChange={handleInputChange}
-        className="w-full p-3 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-green-500 focus:border-transparent transition"
-      />
-      {suggestions.length > 0 && (
-        <ul className="absolute z-10 w-full bg-gray-800 border border-gray-600 rounded-lg mt-1 max-h-60 overflow-y-auto shadow-lg">
-          {suggestions.map(airport => (
-            <li
-              key={airport.iata}
-              onClick={() => handleSelectSuggestion(airport)}
-              className="p-3 hover:bg-gray-700 cursor-pointer"
-            >
-              {airport.name}, {airport.city} ({airport.iata})
-            </li>
-          ))}
-        </ul>
-      )}
-    </div>
-  );
+// Picks the label shown above each stop of the itinerary.
+const getStopLabel = (index: number, count: number): string => {
+  if (index === 0) return '🌍 From';
+  if (index === count - 1) return '✈️ To';
+  return `🔁 Via (stop ${index})`;
 };
 
-
 // This component is the main form where users input their flight route.
 export default function AirportInputForm({
-  fromAirport,
-  setFromAirport,
-  toAirport,
-  setToAirport,
+  airportIndex,
+  stops,
+  setStops,
+  roundTrip,
+  setRoundTrip,
+  passengers,
+  setPassengers,
+  emissionOptions,
+  setEmissionOptions,
   onCalculate,
 }: AirportInputFormProps): React.ReactElement {
+  // Stable keys for each stop, so that removing a stopover doesn't shift the text typed into the other inputs.
+  const [stopKeys, setStopKeys] = useState<number[]>(() => stops.map((_, i) => i));
+
+  // The itinerary can also be replaced from outside (the route planner, or Back and Forward) with a different
+  // number of stops. Give every stop a fresh key then, so no two rows ever share one.
+  if (stopKeys.length !== stops.length) {
+    const firstKey = Math.max(-1, ...stopKeys) + 1;
+    setStopKeys(stops.map((_, i) => firstKey + i));
+  }
+
+  const updateStop = (index: number, airport: Airport | null) => {
+    setStops(stops.map((stop, i) => (i === index ? airport : stop)));
+  };
+
+  // New stopovers are inserted just before the final destination.
+  const addStop = () => {
+    const insertAt = stops.length - 1;
+    setStops([...stops.slice(0, insertAt), null, ...stops.slice(insertAt)]);
+    setStopKeys([...stopKeys.slice(0, insertAt), Math.max(-1, ...stopKeys) + 1, ...stopKeys.slice(insertAt)]);
+  };
+
+  const removeStop = (index: number) => {
+    setStops(stops.filter((_, i) => i !== index));
+    setStopKeys(stopKeys.filter((_, i) => i !== index));
+  };
+
   return (
-    <div className="space-y-4 md:space-y-0 md:flex md:items-center md:space-x-4">
-      <div className="flex-1">
-        <label className="block text-sm font-medium text-gray-300 mb-1">🌍 From</label>
-        <AutocompleteInput
-          value={fromAirport}
-          onChange={setFromAirport}
-          placeholder="e.g., Kathmandu or KTM"
-        />
+    <div className="space-y-4">
+      <div className="space-y-4">
+        {stops.map((stop, index) => {
+          const isStopover = index > 0 && index < stops.length - 1;
+          return (
+            <div key={stopKeys[index]} className="flex items-end gap-2">
+              <div className="flex-1">
+                <AirportCombobox
+                  airportIndex={airportIndex}
+                  label={getStopLabel(index, stops.length)}
+                  value={stop}
+                  onChange={(airport) => updateStop(index, airport)}
+                  placeholder={index === 0 ? 'e.g., Kathmandu or KTM' : 'e.g., London or LHR'}
+                />
+              </div>
+              {isStopover && (
+                <button
+                  onClick={() => removeStop(index)}
+                  aria-label={`Remove stop ${index}`}
+                  className="p-3 text-gray-400 hover:text-red-400 transition"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          );
+        })}
       </div>
-      <div className="hidden md:block text-2xl pt-6">→</div>
-      <div className="flex-1">
-        <label className="block text-sm font-medium text-gray-300 mb-1">✈️ To</label>
-        <AutocompleteInput
-          value={toAirport}
-          onChange={setToAirport}
-          placeholder="e.g., London or LHR"
-        />
-      </div>
-      <div className="pt-0 md:pt-6">
+
+      {/* Trip options */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
         <button
-          onClick={onCalculate}
-          className="w-full md:w-auto bg-green-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-green-700 transition-colors duration-300 shadow"
+          onClick={addStop}
+          disabled={stops.length >= MAX_ITINERARY_STOPS}
+          className="text-blue-400 hover:underline disabled:text-gray-500 disabled:no-underline"
         >
-          Calculate
+          + Add a stopover
         </button>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={roundTrip}
+            onChange={(e) => setRoundTrip(e.target.checked)}
+            className="accent-green-600"
+          />
+          Round trip
+        </label>
+        <label className="flex items-center gap-2">
+          👥 Passengers
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={passengers}
+            onChange={(e) => setPassengers(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+            className="w-20 p-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-green-500"
+          />
+        </label>
       </div>
+
+      {/* Assumptions used by the emission model */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          💺 Cabin class
+          <select
+            value={emissionOptions.cabinClass}
+            onChange={(e) => setEmissionOptions({ ...emissionOptions, cabinClass: e.target.value as CabinClass })}
+            className="p-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-green-500"
+          >
+            {CABIN_CLASSES.map(cabin => (
+              <option key={cabin.cabinClass} value={cabin.cabinClass}>{cabin.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={emissionOptions.includeRadiativeForcing}
+            onChange={(e) => setEmissionOptions({ ...emissionOptions, includeRadiativeForcing: e.target.checked })}
+            className="accent-green-600"
+          />
+          Include non-CO₂ effects (radiative forcing)
+        </label>
+      </div>
+
+      <button
+        onClick={onCalculate}
+        className="w-full md:w-auto bg-green-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-green-700 transition-colors duration-300 shadow"
+      >
+        Calculate
+      </button>
     </div>
   );
 }
\ No newline at end of file
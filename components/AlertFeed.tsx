@@ -0,0 +1,47 @@
+import React from 'react';
+import { TrackerAlert, TrackerAlertType } from '../types';
+
+// Define the properties this component expects to receive.
+interface AlertFeedProps {
+  alerts: TrackerAlert[]; // newest first
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+}
+
+// Icons for each kind of alert.
+const ALERT_ICONS: Record<TrackerAlertType, string> = {
+  watchlist: '👁️',
+  'fence-enter': '📥',
+  'fence-exit': '📤',
+  'fence-descent': '↘️',
+};
+
+// How many alerts are shown before the rest are summarised.
+const MAX_VISIBLE_ALERTS = 5;
+
+// The latest watchlist and geofence alerts, shown above the map.
+export default function AlertFeed({ alerts, onDismiss, onClear }: AlertFeedProps): React.ReactElement {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div role="log" aria-live="polite" className="mb-4 p-3 rounded-lg border border-amber-700 bg-amber-900/30 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold text-amber-200">🔔 Alerts</h3>
+        <button onClick={onClear} className="text-xs text-amber-300 hover:underline">Clear all</button>
+      </div>
+      <ul className="space-y-1">
+        {alerts.slice(0, MAX_VISIBLE_ALERTS).map(alert => (
+          <li key={alert.id} className="flex items-center gap-2 text-amber-100">
+            <span>{ALERT_ICONS[alert.type]}</span>
+            <span className="font-mono text-xs text-amber-300">{new Date(alert.timestamp).toLocaleTimeString()}</span>
+            <span className="flex-1">{alert.message}</span>
+            <button onClick={() => onDismiss(alert.id)} aria-label="Dismiss alert" className="text-amber-300 hover:text-white">✕</button>
+          </li>
+        ))}
+      </ul>
+      {alerts.length > MAX_VISIBLE_ALERTS && (
+        <p className="text-xs text-amber-300 mt-1">…and {alerts.length - MAX_VISIBLE_ALERTS} earlier alerts.</p>
+      )}
+    </div>
+  );
+}
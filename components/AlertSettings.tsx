@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Geofence, Watchlist } from '../types';
+import { GeofenceDrawMode } from './GeofenceLayer';
+import { notificationsSupported, requestNotificationPermission } from '../utils/notifications';
+
+// Define the properties this component expects to receive.
+interface AlertSettingsProps {
+  watchlists: Watchlist[];
+  onWatchlistsChange: (watchlists: Watchlist[]) => void;
+  fences: Geofence[];
+  onFencesChange: (fences: Geofence[]) => void;
+  drawMode: GeofenceDrawMode | null;
+  draftPointCount: number; // how many points of the new fence have been clicked so far
+  onStartDrawing: (mode: GeofenceDrawMode) => void;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+}
+
+// Splits a comma-separated text field into its non-empty entries.
+const splitList = (text: string): string[] =>
+  text.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+// A short description of a fence's shape for the fence list.
+const describeFence = (fence: Geofence): string =>
+  fence.shape.kind === 'circle' ? `Circle, ${fence.shape.radiusKm.toFixed(1)} km radius` : `Area with ${fence.shape.points.length} corners`;
+
+// Instructions shown while drawing a fence.
+const DRAWING_HINTS: Record<GeofenceDrawMode, (points: number) => string> = {
+  circle: points => points === 0 ? 'Click the centre of the circle on the map.' : 'Click the edge of the circle.',
+  polygon: points => points < 3 ? 'Click the corners of the area on the map (at least 3).' : 'Keep clicking corners, or press Finish.',
+};
+
+// Lets the user manage the watchlists and geofences that trigger alerts in the live tracker.
+export default function AlertSettings({
+  watchlists, onWatchlistsChange, fences, onFencesChange,
+  drawMode, draftPointCount, onStartDrawing, onFinishDrawing, onCancelDrawing,
+}: AlertSettingsProps): React.ReactElement {
+  // State for the "new watchlist" form fields
+  const [name, setName] = useState<string>('');
+  const [callsigns, setCallsigns] = useState<string>('');
+  const [icao24s, setIcao24s] = useState<string>('');
+  const [countries, setCountries] = useState<string>('');
+  // State for whether browser notifications are allowed
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+
+  const newWatchlist: Omit<Watchlist, 'id'> = {
+    name: name.trim() || `Watchlist ${watchlists.length + 1}`,
+    callsignPatterns: splitList(callsigns),
+    icao24s: splitList(icao24s),
+    countries: splitList(countries),
+  };
+  const canAdd = newWatchlist.callsignPatterns.length + newWatchlist.icao24s.length + newWatchlist.countries.length > 0;
+
+  const handleAddWatchlist = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onWatchlistsChange([...watchlists, { id: `watch-${Date.now().toString(36)}`, ...newWatchlist }]);
+    setName('');
+    setCallsigns('');
+    setIcao24s('');
+    setCountries('');
+  };
+
+  const handleRenameFence = (id: string, newName: string) => {
+    onFencesChange(fences.map(fence => (fence.id === id ? { ...fence, name: newName } : fence)));
+  };
+
+  const inputClass = 'w-full p-1.5 bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-500';
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800 rounded-lg border border-gray-700 text-sm text-gray-300">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-bold text-gray-100">🔔 Watchlists & Geofences</h3>
+        {permission === 'default' && (
+          <button
+            onClick={async () => setPermission(await requestNotificationPermission())}
+            className="text-blue-400 hover:underline"
+          >
+            Enable browser notifications
+          </button>
+        )}
+        {permission === 'granted' && <span className="text-xs text-green-400">Browser notifications on</span>}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Watchlists */}
+        <div>
+          <h4 className="font-semibold text-gray-200 mb-2">Watchlists</h4>
+          {watchlists.length > 0 && (
+            <ul className="space-y-1 mb-3">
+              {watchlists.map(list => (
+                <li key={list.id} className="flex justify-between gap-2 p-2 bg-gray-900 rounded-md">
+                  <span>
+                    <strong className="text-white">{list.name}</strong>
+                    <span className="block text-xs text-gray-400">
+                      {[...list.callsignPatterns, ...list.icao24s, ...list.countries].join(', ')}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => onWatchlistsChange(watchlists.filter(other => other.id !== list.id))}
+                    aria-label={`Delete ${list.name}`}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddWatchlist} className="space-y-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (optional)" className={inputClass} />
+            <input value={callsigns} onChange={(e) => setCallsigns(e.target.value)} placeholder="Callsigns, e.g. RNA*, QTR35?" className={inputClass} />
+            <input value={icao24s} onChange={(e) => setIcao24s(e.target.value)} placeholder="ICAO24 addresses, e.g. 70c0a1" className={inputClass} />
+            <input value={countries} onChange={(e) => setCountries(e.target.value)} placeholder="Origin countries, e.g. Nepal" className={inputClass} />
+            <button
+              type="submit"
+              disabled={!canAdd}
+              className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition disabled:bg-gray-600"
+            >
+              Add watchlist
+            </button>
+          </form>
+        </div>
+
+        {/* Geofences */}
+        <div>
+          <h4 className="font-semibold text-gray-200 mb-2">Geofences</h4>
+          {fences.length > 0 && (
+            <ul className="space-y-1 mb-3">
+              {fences.map(fence => (
+                <li key={fence.id} className="flex items-center justify-between gap-2 p-2 bg-gray-900 rounded-md">
+                  <span className="flex-1">
+                    <input
+                      value={fence.name}
+                      onChange={(e) => handleRenameFence(fence.id, e.target.value)}
+                      aria-label="Fence name"
+                      className="w-full bg-transparent text-white font-semibold focus:outline-none focus:ring-1 focus:ring-blue-500 rounded"
+                    />
+                    <span className="block text-xs text-gray-400">{describeFence(fence)}</span>
+                  </span>
+                  <button
+                    onClick={() => onFencesChange(fences.filter(other => other.id !== fence.id))}
+                    aria-label={`Delete ${fence.name}`}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {drawMode ? (
+            <div className="space-y-2">
+              <p className="text-blue-300">{DRAWING_HINTS[drawMode](draftPointCount)}</p>
+              <div className="flex gap-2">
+                {drawMode === 'polygon' && (
+                  <button
+                    onClick={onFinishDrawing}
+                    disabled={draftPointCount < 3}
+                    className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition disabled:bg-gray-600"
+                  >
+                    Finish
+                  </button>
+                )}
+                <button onClick={onCancelDrawing} className="px-3 py-1 rounded-md bg-gray-600 text-white hover:bg-gray-500 transition">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button onClick={() => onStartDrawing('circle')} className="px-3 py-1 rounded-md bg-gray-700 text-white hover:bg-gray-600 transition">
+                ⭕ Draw circle
+              </button>
+              <button onClick={() => onStartDrawing('polygon')} className="px-3 py-1 rounded-md bg-gray-700 text-white hover:bg-gray-600 transition">
+                ⬠ Draw area
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
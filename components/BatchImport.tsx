@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { BatchGrouping, BatchTripResult, EmissionOptions, OffsetPricing, SheetRow } from '../types';
+import { AirportIndex } from '../utils/airportSearch';
+import { calculateBatch, groupBatchResults, readBatchFile } from '../utils/batchImport';
+import { formatCostRange, getOffsetCostRange, getPricingCurrency } from '../utils/offsets';
+
+// Define the properties this component expects to receive.
+interface BatchImportProps {
+  airportIndex: AirportIndex;
+  emissionOptions: EmissionOptions; // used for rows without a cabin class, and for radiative forcing
+  offsetPricing: OffsetPricing; // used to put a price on offsetting the whole file
+}
+
+// The groupings the summary table can show.
+const GROUPINGS: { id: BatchGrouping; label: string }[] = [
+  { id: 'traveller', label: 'Traveller' },
+  { id: 'month', label: 'Month' },
+  { id: 'route', label: 'Route' },
+];
+
+// Calculates a whole CSV or Excel file of flights at once and summarises them for travel reports.
+export default function BatchImport({ airportIndex, emissionOptions, offsetPricing }: BatchImportProps): React.ReactElement {
+  const [fileName, setFileName] = useState<string>('');
+  const [rows, setRows] = useState<SheetRow[] | null>(null);
+  const [grouping, setGrouping] = useState<BatchGrouping>('traveller');
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  // Recalculate when the file, the airport dataset or the default assumptions change.
+  const batch = useMemo(
+    () => (rows ? calculateBatch(rows, airportIndex, emissionOptions) : null),
+    [rows, airportIndex, emissionOptions]
+  );
+  const results: BatchTripResult[] = batch?.results ?? [];
+  const groups = useMemo(() => groupBatchResults(batch?.results ?? [], grouping), [batch, grouping]);
+  const problems = results.filter(result => result.errors.length > 0);
+  const totalEmissions = groups.reduce((sum, group) => sum + group.emissions, 0);
+  const totalDistance = groups.reduce((sum, group) => sum + group.distance, 0);
+  const offsetCost = getOffsetCostRange(totalEmissions, offsetPricing);
+  const currency = getPricingCurrency(offsetPricing).code;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setError('');
+    setIsReading(true);
+    try {
+      setRows(await readBatchFile(file));
+    } catch (e) {
+      console.error('Error reading batch file:', e);
+      setRows(null);
+      setError(e instanceof Error ? e.message : 'Could not read the file.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl shadow-md border border-gray-700 space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-100">📊 Batch Import</h2>
+        <p className="text-gray-400 text-sm mt-1">
+          Upload a CSV or Excel (.xlsx) file with <span className="font-mono">origin</span> and{' '}
+          <span className="font-mono">destination</span> IATA code columns, and optionally{' '}
+          <span className="font-mono">date</span>, <span className="font-mono">cabin</span>,{' '}
+          <span className="font-mono">passengers</span> and <span className="font-mono">traveller</span>.
+          Each row is one one-way flight; rows without a cabin use the calculator's setting ({emissionOptions.cabinClass}).
+        </p>
+      </div>
+
+      <input
+        type="file"
+        accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="block text-sm text-gray-300 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-green-600 file:text-white file:font-bold hover:file:bg-green-700"
+      />
+
+      {isReading && <p className="text-gray-400">Reading {fileName}...</p>}
+      {error && <p className="text-red-500">{error}</p>}
+      {batch && batch.missingColumns.length > 0 && (
+        <p className="text-red-500">
+          {fileName} has no {batch.missingColumns.join(' or ')} column. Check the first row holds the column names.
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <p className="text-gray-300">
+            {fileName}: <strong>{results.length - problems.length}</strong> of {results.length} flights calculated,{' '}
+            {Math.round(totalDistance).toLocaleString()} km and <strong>{totalEmissions.toFixed(1)} kg CO₂</strong> in total.
+            Offsetting it would cost about{' '}
+            <span className="text-green-400 font-mono">{formatCostRange(offsetCost.min, offsetCost.max, currency)}</span>.
+          </p>
+
+          {/* Totals by traveller, month or route */}
+          <div className="flex gap-2" role="group" aria-label="Group totals by">
+            {GROUPINGS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setGrouping(option.id)}
+                className={`px-3 py-1 rounded-lg text-sm ${grouping === option.id ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="py-2 pr-3 font-semibold">{GROUPINGS.find(g => g.id === grouping)?.label}</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Flights</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Passenger trips</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Distance (km)</th>
+                  <th className="py-2 pr-3 font-semibold text-right">kg CO₂</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Offset cost</th>
+                  <th className="py-2 font-semibold text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => {
+                  const groupOffsetCost = getOffsetCostRange(group.emissions, offsetPricing);
+                  return (
+                    <tr key={group.key} className="border-b border-gray-800">
+                      <td className="py-2 pr-3 font-mono">{group.key}</td>
+                      <td className="py-2 pr-3 text-right">{group.trips}</td>
+                      <td className="py-2 pr-3 text-right">{group.passengers}</td>
+                      <td className="py-2 pr-3 text-right">{Math.round(group.distance).toLocaleString()}</td>
+                      <td className="py-2 pr-3 text-right font-mono">{group.emissions.toFixed(1)}</td>
+                      <td className="py-2 pr-3 text-right font-mono whitespace-nowrap">{formatCostRange(groupOffsetCost.min, groupOffsetCost.max, currency)}</td>
+                      <td className="py-2 text-right text-gray-400">{totalEmissions > 0 ? Math.round((group.emissions / totalEmissions) * 100) : 0}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Rows that couldn't be calculated */}
+          {problems.length > 0 && (
+            <div className="bg-gray-800 p-4 rounded-lg border border-red-900">
+              <h4 className="font-bold text-red-400 mb-2">⚠️ {problems.length} rows couldn't be calculated</h4>
+              <ul className="text-sm text-gray-300 space-y-1 max-h-60 overflow-y-auto">
+                {problems.map(result => (
+                  <li key={result.line}>
+                    <span className="text-gray-500">Row {result.line}:</span> {result.errors.join('; ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,35 @@
 import React from 'react';
+import { ChatMessage, OffsetCatalogue, OffsetPricing, PartialEcoPlan, TripResult } from '../types';
+import { getOutboundLegs, getTripEmissionOptions } from '../utils/itinerary';
+import { getEmissionMethodology } from '../utils/methodology';
+import { buildTripCsv, buildTripJson, downloadFile, getExportFileName, printReport } from '../utils/export';
+import ModeComparison from './ModeComparison';
+import RouteMap from './RouteMap';
+import EcoPlanView from './EcoPlanView';
+import EcoPlanChat from './EcoPlanChat';
+import ExportButtons from './ExportButtons';
+import MethodologyList from './MethodologyList';
+import OffsetCosts from './OffsetCosts';
 
 // Define the properties this component expects to receive.
 interface CalculationResultProps {
-  emissions: number | null;
+  trip: TripResult | null;
+  calculatedAt: number; // ms since epoch, when the trip was calculated
   isGeneratingPlan: boolean;
-  ecoPlan: string;
+  ecoPlan: PartialEcoPlan | null; // grows while it is being generated
   onGeneratePlan: () => void;
+  onCancelPlan: () => void;
+  planStopped: boolean; // the user cancelled before the plan was finished
+  planProvider: string | null; // the label of the provider that wrote the plan
+  chatMessages: ChatMessage[]; // the follow-up conversation for this itinerary
+  isChatting: boolean;
+  chatError: string;
+  onSendChat: (text: string) => void;
+  onCancelChat: () => void;
   showPlanGenerator: boolean;
+  offsetPricing: OffsetPricing; // the offset price catalogue and the currency to show costs in
+  isCustomCatalogue: boolean;
+  onCatalogueChange: (catalogue: OffsetCatalogue | null) => void;
 }
 
 // A simple component to display a single eco-tip.
@@ -17,39 +40,133 @@ const EcoTip: React.FC<{ icon: string; text: string }> = ({ icon, text }) => (
   </div>
 );
 
-// Formats a simple subset of Markdown (specifically bullet points) into HTML.
-const formatMarkdownToHtml = (text: string): string => {
-  if (!text) return '';
-  return text
-    .replace(/^\* (.*$)/gm, '<li>$1</li>')
-    .replace(/(<\/li><li>)/gm, '</li><li>')
-    .replace(/(<li>.*<\/li>)/gs, '<ul class="list-disc list-inside space-y-2">$1</ul>')
-    .replace(/\n/g, '<br />');
-};
+// A single row in the "how we calculated this" list.
+const AssumptionRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex justify-between gap-4 py-1 border-b border-gray-700 last:border-0">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-gray-200 font-mono text-right">{value}</span>
+  </div>
+);
 
 // This component shows the results of the CO2 calculation and provides eco-friendly tips.
 export default function CalculationResult({
-  emissions,
+  trip,
+  calculatedAt,
   isGeneratingPlan,
   ecoPlan,
   onGeneratePlan,
-  showPlanGenerator
+  onCancelPlan,
+  planStopped,
+  planProvider,
+  chatMessages,
+  isChatting,
+  chatError,
+  onSendChat,
+  onCancelChat,
+  showPlanGenerator,
+  offsetPricing,
+  isCustomCatalogue,
+  onCatalogueChange
 }: CalculationResultProps): React.ReactElement {
 
   // If there are no emissions calculated yet, we don't show anything.
-  if (emissions === null) {
+  if (trip === null) {
     return null;
   }
 
+  // Cabin class, detour and radiative forcing are the same for every leg, so we read them from the first one.
+  const assumptions = trip.legs[0].emissions;
+
+  // Exports include the methodology, and are named after the route and the day of the calculation.
+  const methodology = getEmissionMethodology(getTripEmissionOptions(trip), calculatedAt);
+  const outboundLegs = getOutboundLegs(trip);
+  const fileParts = ['trip', outboundLegs[0].from.iata, ...outboundLegs.map(leg => leg.to.iata)];
+  const exports = [
+    { label: 'JSON', onExport: () => downloadFile(buildTripJson(trip, ecoPlan, methodology, offsetPricing), getExportFileName(fileParts, 'json', calculatedAt), 'application/json') },
+    { label: 'CSV', onExport: () => downloadFile(buildTripCsv(trip, ecoPlan, methodology, offsetPricing), getExportFileName(fileParts, 'csv', calculatedAt), 'text/csv') },
+    { label: '🖨️ Print / PDF report', onExport: printReport },
+  ];
+
   return (
-    <div className="mt-6 space-y-6">
+    <div className="print-report mt-6 space-y-6">
+      {/* Report heading, only shown when printed */}
+      <div className="print-only">
+        <h2 className="text-2xl font-bold text-gray-100">EcoFly trip report</h2>
+        <p className="text-sm text-gray-400">Calculated {new Date(calculatedAt).toLocaleString()}</p>
+      </div>
+
+      <ExportButtons exports={exports} disabled={isGeneratingPlan} />
+
       {/* Result Display */}
       <div className="text-center bg-gray-800 p-6 rounded-lg border border-gray-700">
-        <p className="text-lg text-gray-200">Your flight emits approximately:</p>
+        <p className="text-lg text-gray-200">
+          Your {trip.roundTrip ? 'round trip' : 'trip'} emits approximately:
+        </p>
         <p className="text-4xl md:text-5xl font-bold text-green-500 my-2">
-          {emissions.toFixed(1)} kg CO₂
+          {trip.emissionsPerPassenger.toFixed(1)} kg CO₂
+        </p>
+        <p className="text-sm text-gray-400">
+          per passenger over {Math.round(trip.totalDistance).toLocaleString()} km
+          {trip.passengers > 1 && ` · ${trip.totalEmissions.toFixed(1)} kg CO₂ for all ${trip.passengers} passengers`}
         </p>
-        <p className="text-sm text-gray-400">per passenger</p>
+      </div>
+
+      {/* Leg-by-leg breakdown */}
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 overflow-x-auto">
+        <h4 className="font-bold text-gray-100 mb-2">🛫 Leg by leg</h4>
+        <table className="w-full text-left text-sm">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="py-1 pr-3 font-semibold">Leg</th>
+              <th className="py-1 pr-3 font-semibold">Distance</th>
+              <th className="py-1 pr-3 font-semibold">Band</th>
+              <th className="py-1 pr-3 font-semibold text-right">kg CO₂ / passenger</th>
+            </tr>
+          </thead>
+          <tbody>
+            {trip.legs.map((leg, index) => (
+              <tr key={index} className="border-t border-gray-700">
+                <td className="py-1 pr-3 font-mono">{leg.from.iata} → {leg.to.iata}</td>
+                <td className="py-1 pr-3">{Math.round(leg.distance).toLocaleString()} km</td>
+                <td className="py-1 pr-3 text-gray-300">
+                  {leg.emissions.bandLabel} · {leg.emissions.bandFactor.toFixed(3)} kg/km
+                </td>
+                <td className="py-1 pr-3 text-right font-mono">{leg.emissions.total.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* The route on a map, following each leg's great circle */}
+      <RouteMap legs={getOutboundLegs(trip)} />
+
+      {/* Compare each flight with going by train, coach or car */}
+      <ModeComparison legs={getOutboundLegs(trip)} />
+
+      {/* The price of offsetting the trip */}
+      <OffsetCosts
+        emissionsKg={trip.totalEmissions}
+        passengers={trip.passengers}
+        pricing={offsetPricing}
+        isCustomCatalogue={isCustomCatalogue}
+        onCatalogueChange={onCatalogueChange}
+      />
+
+      {/* Assumptions behind the figure */}
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 text-sm">
+        <h4 className="font-bold text-gray-100 mb-2">🔍 How we calculated this</h4>
+        <AssumptionRow
+          label={`Routing detour (+${Math.round(assumptions.detourCorrection * 100)}%)`}
+          value="Added to each great-circle leg"
+        />
+        <AssumptionRow label="Distance band factor" value="Per leg, see table above" />
+        <AssumptionRow label={`${assumptions.cabinLabel} cabin`} value={`× ${assumptions.cabinMultiplier.toFixed(1)}`} />
+        <AssumptionRow
+          label="Radiative forcing (non-CO₂ effects)"
+          value={assumptions.radiativeForcingMultiplier > 1 ? `× ${assumptions.radiativeForcingMultiplier.toFixed(1)}` : 'Not included'}
+        />
+        <AssumptionRow label="Passengers" value={`× ${trip.passengers}`} />
       </div>
 
       {/* Eco Tips Section */}
@@ -70,7 +187,7 @@ export default function CalculationResult({
 
       {/* AI Eco Plan Generator */}
       {showPlanGenerator && (
-        <div className="text-center pt-4">
+        <div className="print-hidden text-center pt-4">
           <button
             onClick={onGeneratePlan}
             disabled={isGeneratingPlan}
@@ -78,16 +195,42 @@ export default function CalculationResult({
           >
             {isGeneratingPlan ? '💡 Generating...' : '💡 Get AI Eco-Plan'}
           </button>
+          {isGeneratingPlan && (
+            <button
+              onClick={onCancelPlan}
+              className="ml-3 bg-gray-700 text-white font-bold py-3 px-6 rounded-lg hover:bg-gray-600 transition"
+            >
+              Cancel
+            </button>
+          )}
         </div>
       )}
 
-      {/* Display the AI-generated plan */}
-      {ecoPlan && (
+      {/* Display the AI-generated plan, followed by the conversation about it */}
+      {(ecoPlan || chatMessages.length > 0) && (
          <div className="bg-gray-800 border border-gray-700 p-6 rounded-lg max-w-none text-left">
             <h3 className="text-blue-400 text-xl font-bold mb-4">Your Personal Eco-Plan</h3>
-            <div className="space-y-3 text-gray-200" dangerouslySetInnerHTML={{ __html: formatMarkdownToHtml(ecoPlan) }} />
+            {ecoPlan && <EcoPlanView plan={ecoPlan} isStreaming={isGeneratingPlan} />}
+            {planStopped && <p className="text-sm text-gray-400 mt-4">⏹ Stopped before the plan was finished.</p>}
+            {ecoPlan && planProvider && <p className="text-xs text-gray-500 mt-4">Generated by {planProvider}</p>}
+            {!isGeneratingPlan && (
+              <div className="print-hidden border-t border-gray-700 mt-6 pt-4">
+                <EcoPlanChat
+                  messages={chatMessages}
+                  isSending={isChatting}
+                  error={chatError}
+                  onSend={onSendChat}
+                  onCancel={onCancelChat}
+                />
+              </div>
+            )}
         </div>
       )}
+
+      {/* Methodology, only shown when printed (the exported files include it too) */}
+      <div className="print-only">
+        <MethodologyList methodology={methodology} />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { TripYearSummary } from '../types';
+import { BUDGET_WARNING_SHARE } from '../constants';
+
+// Define the properties this component expects to receive.
+interface CarbonBudgetProps {
+  year: number;
+  budget: number | undefined; // kg CO₂, or undefined if the user hasn't set one for this year
+  summary: TripYearSummary;
+  pendingKg: number; // a trip the user is about to log, shown on top of the logged ones (0 for none)
+  onBudgetChange: (kg: number | null) => void; // null clears the budget
+}
+
+const MONTH_LABELS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+// Shows how much of a year's carbon budget the logged trips use, and a bar chart of emissions per month.
+export default function CarbonBudget({ year, budget, summary, pendingKg, onBudgetChange }: CarbonBudgetProps): React.ReactElement {
+  const [draftBudget, setDraftBudget] = useState<string>(budget ? String(budget) : '');
+
+  // Show the saved budget again when the user switches year.
+  useEffect(() => {
+    setDraftBudget(budget ? String(budget) : '');
+  }, [year, budget]);
+
+  const saveBudget = () => {
+    const kg = Number(draftBudget);
+    onBudgetChange(draftBudget.trim() !== '' && kg > 0 ? kg : null);
+  };
+
+  // The bar's full width is the budget, or the total if that's bigger.
+  const used = summary.total + pendingKg;
+  const scale = Math.max(budget ?? 0, used, 1);
+  const share = budget ? used / budget : 0;
+  const statusColor = share > 1 ? 'text-red-400' : share >= BUDGET_WARNING_SHARE ? 'text-amber-400' : 'text-green-400';
+
+  // Months are drawn against the busiest month, or an even monthly share of the budget if that's bigger.
+  const monthlyShare = budget ? budget / 12 : 0;
+  const monthScale = Math.max(...summary.byMonth, monthlyShare, 1);
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveBudget();
+        }}
+      >
+        <label htmlFor="carbon-budget" className="text-gray-300">{year} budget:</label>
+        <input
+          id="carbon-budget"
+          type="number"
+          min="0"
+          step="100"
+          value={draftBudget}
+          onChange={(e) => setDraftBudget(e.target.value)}
+          placeholder="e.g. 2000"
+          className="w-32 p-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-green-500"
+        />
+        <span className="text-gray-400">kg CO₂</span>
+        <button type="submit" className="bg-gray-700 text-white px-3 py-2 rounded-lg hover:bg-gray-600 transition">Save</button>
+      </form>
+
+      <div>
+        <div className="relative h-5 bg-gray-800 rounded-full overflow-hidden border border-gray-700" role="img"
+          aria-label={`${Math.round(used)} kg CO₂ of ${budget ? `a ${Math.round(budget)} kg budget` : 'no budget'}`}>
+          <div className="absolute inset-0 flex">
+            <div className="bg-green-600" style={{ width: `${(summary.taken / scale) * 100}%` }} />
+            <div className="bg-amber-500" style={{ width: `${(summary.planned / scale) * 100}%` }} />
+            <div className="bg-blue-500 opacity-70" style={{ width: `${(pendingKg / scale) * 100}%` }} />
+          </div>
+          {budget && <div className="absolute inset-y-0 w-0.5 bg-white" style={{ left: `${(budget / scale) * 100}%` }} title="Budget" />}
+        </div>
+        <div className="flex flex-wrap justify-between gap-2 mt-1 text-sm">
+          <span className="text-gray-400">
+            <span className="text-green-400">■</span> Taken {Math.round(summary.taken)} kg ·{' '}
+            <span className="text-amber-400">■</span> Planned {Math.round(summary.planned)} kg
+            {pendingKg > 0 && <> · <span className="text-blue-400">■</span> This trip {Math.round(pendingKg)} kg</>}
+          </span>
+          {budget ? (
+            <span className={statusColor}>{Math.round(used)} of {Math.round(budget)} kg ({Math.round(share * 100)}%)</span>
+          ) : (
+            <span className="text-gray-500">Set a budget to track your progress</span>
+          )}
+        </div>
+      </div>
+
+      {/* Emissions per month, with a line at an even twelfth of the budget */}
+      <div className="relative flex items-end gap-1 h-32 pt-2 border-b border-gray-700">
+        {monthlyShare > 0 && (
+          <div className="absolute inset-x-0 border-t border-dashed border-gray-500" style={{ bottom: `${(monthlyShare / monthScale) * 100}%` }}
+            title={`An even monthly share of the budget: ${Math.round(monthlyShare)} kg`} />
+        )}
+        {summary.byMonth.map((kg, month) => (
+          <div key={month} className="flex-1 h-full flex items-end" title={`${Math.round(kg)} kg CO₂`}>
+            <div className={`w-full rounded-t ${kg > monthlyShare && monthlyShare > 0 ? 'bg-amber-500' : 'bg-green-600'}`}
+              style={{ height: `${(kg / monthScale) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 text-xs text-gray-500 text-center">
+        {MONTH_LABELS.map((label, month) => <span key={month} className="flex-1">{label}</span>)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, ChatToolCall } from '../types';
+
+// Define the properties this component expects to receive.
+interface EcoPlanChatProps {
+  messages: ChatMessage[]; // the conversation for the current itinerary, oldest first
+  isSending: boolean; // the assistant is working on an answer
+  error: string;
+  onSend: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Questions to get the conversation started.
+const SUGGESTED_QUESTIONS = [
+  'Could I do part of this trip by bus or train instead?',
+  'Which carbon offsets are properly certified?',
+  'How much would flying economy save?',
+];
+
+// Names for the calculations the assistant can run, shown under its answers.
+const TOOL_LABELS: Record<string, string> = {
+  find_airports: 'Looked up airports',
+  calculate_flight_emissions: 'Calculated flight emissions',
+  compare_travel_modes: 'Compared travel modes',
+};
+
+// A short description of one calculation, e.g. "Calculated flight emissions: DEL → BOM".
+const describeToolCall = ({ name, args }: ChatToolCall): string => {
+  const label = TOOL_LABELS[name] ?? name;
+  if (typeof args.from === 'string' && typeof args.to === 'string') return `${label}: ${args.from} → ${args.to}`;
+  if (typeof args.query === 'string') return `${label}: "${args.query}"`;
+  return label;
+};
+
+// A follow-up conversation about the eco-plan. The assistant can run the app's own calculations to answer.
+export default function EcoPlanChat({ messages, isSending, error, onSend, onCancel }: EcoPlanChatProps): React.ReactElement {
+  const [draft, setDraft] = useState<string>('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view.
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, isSending]);
+
+  const send = (text: string) => {
+    const question = text.trim();
+    if (!question || isSending) return;
+    onSend(question);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-bold text-gray-100">💬 Ask about this trip</h4>
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2">
+          {SUGGESTED_QUESTIONS.map(question => (
+            <button
+              key={question}
+              onClick={() => send(question)}
+              disabled={isSending}
+              className="text-sm bg-gray-900 border border-gray-700 text-gray-300 px-3 py-1 rounded-full hover:border-blue-500 disabled:opacity-50"
+            >
+              {question}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto" aria-live="polite">
+        {messages.map(message => (
+          <div key={message.id} className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+            <div
+              className={`max-w-[85%] px-3 py-2 rounded-lg whitespace-pre-line ${
+                message.role === 'user' ? 'bg-blue-700 text-white' : 'bg-gray-900 border border-gray-700 text-gray-200'
+              }`}
+            >
+              {message.text}
+              {message.toolCalls && message.toolCalls.length > 0 && (
+                <ul className="mt-2 text-xs text-gray-400 space-y-0.5">
+                  {message.toolCalls.map((call, index) => (
+                    <li key={index}>🧮 {describeToolCall(call)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ))}
+        {isSending && <p className="text-sm text-gray-400">💡 Thinking...</p>}
+        <div ref={endRef} />
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="e.g. What about going by bus from DEL?"
+          className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+        />
+        {isSending ? (
+          <button type="button" onClick={onCancel} className="bg-gray-700 text-white font-bold px-4 py-2 rounded-lg hover:bg-gray-600 transition">
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="bg-blue-600 text-white font-bold px-4 py-2 rounded-lg hover:bg-blue-700 transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            Send
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { EcoTipCategory, EcoTipPriority, PartialEcoPlan } from '../types';
+
+// Define the properties this component expects to receive.
+interface EcoPlanViewProps {
+  plan: PartialEcoPlan; // a complete plan, or the part that has arrived so far
+  isStreaming: boolean; // more of the plan is still arriving
+}
+
+// An icon for each tip category.
+const CATEGORY_ICONS: Record<EcoTipCategory, string> = {
+  flight: '✈️',
+  packing: '🧳',
+  'ground-transport': '🚆',
+  accommodation: '🏨',
+  offsetting: '🌳',
+  other: '🌱',
+};
+
+// Badge colours and labels for each priority.
+const PRIORITY_STYLES: Record<EcoTipPriority, { label: string; className: string }> = {
+  high: { label: 'High impact', className: 'bg-green-900 text-green-300 border-green-700' },
+  medium: { label: 'Medium impact', className: 'bg-blue-900 text-blue-300 border-blue-700' },
+  low: { label: 'Low impact', className: 'bg-gray-700 text-gray-300 border-gray-600' },
+};
+
+// Shows an AI eco-plan: the introduction, a card for each tip and the offset suggestion.
+export default function EcoPlanView({ plan, isStreaming }: EcoPlanViewProps): React.ReactElement {
+  return (
+    <div className="space-y-4 text-gray-200" aria-busy={isStreaming}>
+      {plan.intro && <p>{plan.intro}</p>}
+
+      <ul className="space-y-3">
+        {plan.tips.map((tip, index) => (
+          <li key={index} className="flex items-start gap-3 p-3 bg-gray-900 rounded-lg border border-gray-700">
+            <span className="text-2xl" aria-hidden="true">{CATEGORY_ICONS[tip.category]}</span>
+            <div className="flex-1">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <h4 className="font-bold text-gray-100">{tip.title}</h4>
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${PRIORITY_STYLES[tip.priority].className}`}>
+                  {PRIORITY_STYLES[tip.priority].label}
+                </span>
+                {tip.estimatedSavingKg !== null && (
+                  <span className="text-xs text-green-400">saves ~{tip.estimatedSavingKg.toFixed(0)} kg CO₂</span>
+                )}
+              </div>
+              <p className="text-sm text-gray-300">{tip.description}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {plan.offsetSuggestion && (
+        <div className="p-3 rounded-lg border border-green-800 bg-green-900/30">
+          <h4 className="font-bold text-green-300 mb-1">🌳 Offsetting what's left</h4>
+          <p className="text-sm text-gray-300">{plan.offsetSuggestion.description}</p>
+          {plan.offsetSuggestion.co2ToOffsetKg > 0 && (
+            <p className="text-xs text-gray-400 mt-1">
+              About {plan.offsetSuggestion.co2ToOffsetKg.toFixed(0)} kg CO₂ per passenger to offset.
+            </p>
+          )}
+        </div>
+      )}
+
+      {isStreaming && <p className="text-sm text-gray-400 animate-pulse">✍️ Writing your plan...</p>}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import React from 'react';
+
+// Define the properties this component expects to receive.
+interface ExportButtonsProps {
+  exports: { label: string; onExport: () => void }[];
+  disabled?: boolean;
+}
+
+// A row of buttons for saving what's on screen as a file or a printed report. It's left out of printed reports.
+export default function ExportButtons({ exports, disabled = false }: ExportButtonsProps): React.ReactElement {
+  return (
+    <div className="print-hidden flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-400">⬇️ Export:</span>
+      {exports.map(({ label, onExport }) => (
+        <button
+          key={label}
+          onClick={onExport}
+          disabled={disabled}
+          className="bg-gray-800 border border-gray-600 text-gray-200 px-3 py-1 rounded-lg hover:bg-gray-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { FlightState } from '../types';
+import { getAltitudeColor } from './FlightTrails';
+
+// Define the properties this component expects to receive.
+interface FlightCanvasLayerProps {
+  flights: FlightState[];
+  highlightedIds: Set<string>; // icao24s of aircraft to ring in the highlight colour
+  onSelect: (flight: FlightState) => void; // called when the user clicks an aircraft
+}
+
+const HIGHLIGHT_COLOR = '#22c55e';
+
+// How close (in screen pixels) a click must be to an aircraft to select it.
+const HIT_RADIUS_PX = 10;
+
+// Draws a small aircraft shape centred on the origin, pointing up (north).
+const drawGlyph = (ctx: CanvasRenderingContext2D) => {
+  ctx.beginPath();
+  ctx.moveTo(0, -7); // nose
+  ctx.lineTo(1.5, -2);
+  ctx.lineTo(7, 1); // right wing
+  ctx.lineTo(7, 2.5);
+  ctx.lineTo(1.5, 1);
+  ctx.lineTo(1, 5);
+  ctx.lineTo(3, 6.5); // right tailplane
+  ctx.lineTo(3, 7.5);
+  ctx.lineTo(0, 6.5);
+  ctx.lineTo(-3, 7.5);
+  ctx.lineTo(-3, 6.5); // left tailplane
+  ctx.lineTo(-1, 5);
+  ctx.lineTo(-1.5, 1);
+  ctx.lineTo(-7, 2.5);
+  ctx.lineTo(-7, 1); // left wing
+  ctx.lineTo(-1.5, -2);
+  ctx.closePath();
+  ctx.fill();
+};
+
+/**
+ * A Leaflet layer that draws every aircraft onto one canvas instead of creating a DOM element for each.
+ * It redraws whenever the map stops moving, and is hidden during zoom animations like Leaflet's own canvas layers.
+ */
+class FlightCanvas extends L.Layer {
+  private canvas: HTMLCanvasElement = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+  private map: L.Map | null = null;
+  private flights: FlightState[] = [];
+  private highlightedIds: Set<string> = new Set();
+  // Where each aircraft was drawn, in container pixels, for click hit-testing
+  private drawn: { flight: FlightState; x: number; y: number }[] = [];
+
+  onAdd(map: L.Map): this {
+    this.map = map;
+    map.getPanes().overlayPane.appendChild(this.canvas);
+    map.on('moveend zoomend resize', this.redraw, this);
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off('moveend zoomend resize', this.redraw, this);
+    this.canvas.remove();
+    this.map = null;
+    return this;
+  }
+
+  setFlights(flights: FlightState[], highlightedIds: Set<string>): void {
+    this.flights = flights;
+    this.highlightedIds = highlightedIds;
+    this.redraw();
+  }
+
+  // Finds the aircraft drawn closest to a point on screen, if any is close enough.
+  findFlightAt(point: L.Point): FlightState | null {
+    let best: FlightState | null = null;
+    let bestDistance = HIT_RADIUS_PX;
+    for (const { flight, x, y } of this.drawn) {
+      const distance = Math.hypot(point.x - x, point.y - y);
+      if (distance <= bestDistance) {
+        best = flight;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  redraw(): void {
+    const map = this.map;
+    if (!map) return;
+    const size = map.getSize();
+    const ratio = window.devicePixelRatio || 1;
+
+    // Line the canvas up with the visible part of the map, and size it for sharp drawing on high-DPI screens.
+    L.DomUtil.setPosition(this.canvas, map.containerPointToLayerPoint([0, 0]));
+    this.canvas.width = size.x * ratio;
+    this.canvas.height = size.y * ratio;
+    this.canvas.style.width = `${size.x}px`;
+    this.canvas.style.height = `${size.y}px`;
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size.x, size.y);
+
+    this.drawn = [];
+    for (const flight of this.flights) {
+      if (flight.latitude === null || flight.longitude === null) continue;
+      const { x, y } = map.latLngToContainerPoint([flight.latitude, flight.longitude]);
+      if (x < -10 || y < -10 || x > size.x + 10 || y > size.y + 10) continue;
+
+      ctx.save();
+      ctx.translate(x, y);
+      if (this.highlightedIds.has(flight.icao24)) {
+        ctx.beginPath();
+        ctx.arc(0, 0, 10, 0, 2 * Math.PI);
+        ctx.strokeStyle = HIGHLIGHT_COLOR;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+      ctx.rotate(((flight.true_track ?? 0) * Math.PI) / 180);
+      ctx.fillStyle = getAltitudeColor(flight.baro_altitude ?? flight.geo_altitude);
+      drawGlyph(ctx);
+      ctx.restore();
+      this.drawn.push({ flight, x, y });
+    }
+  }
+}
+
+// Draws aircraft as altitude-coloured glyphs on a canvas, which stays fast with thousands of aircraft.
+export default function FlightCanvasLayer({ flights, highlightedIds, onSelect }: FlightCanvasLayerProps): React.ReactElement {
+  const map = useMap();
+  const layerRef = useRef<FlightCanvas | null>(null);
+
+  useEffect(() => {
+    const layer = new FlightCanvas();
+    map.addLayer(layer);
+    layerRef.current = layer;
+    return () => {
+      map.removeLayer(layer);
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    layerRef.current?.setFlights(flights, highlightedIds);
+  }, [flights, highlightedIds]);
+
+  useMapEvents({
+    click: (event) => {
+      const flight = layerRef.current?.findFlightAt(event.containerPoint);
+      if (flight) onSelect(flight);
+    },
+  });
+
+  return null;
+}
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { Marker, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { FlightState } from '../types';
+import { CLUSTER_MAX_ZOOM } from '../constants';
+import { clusterFlights } from '../utils/clustering';
+
+// Define the properties this component expects to receive.
+interface FlightMarkersProps {
+  flights: FlightState[];
+  clustered: boolean; // group nearby aircraft when zoomed out
+  highlightedIds: Set<string>; // icao24s of aircraft to draw in the highlight colour
+  onSelect: (flight: FlightState) => void; // called when the user clicks an aircraft
+}
+
+// Headings are rounded to this many degrees, so a few dozen icons cover every aircraft.
+const HEADING_STEP = 10;
+
+// Icons are expensive to build, so each one is made once and shared by every marker that needs it.
+const flightIconCache = new Map<string, L.DivIcon>();
+const clusterIconCache = new Map<number, L.DivIcon>();
+
+/**
+ * Gets the rotated aircraft icon for a heading, building it the first time it's needed.
+ * @param track The aircraft's heading in degrees, or null if unknown
+ * @param highlighted Whether to draw the aircraft with a green glow
+ * @returns A shared Leaflet icon
+ */
+export const getFlightIcon = (track: number | null, highlighted: boolean = false): L.DivIcon => {
+  const rotation = (Math.round((track ?? 0) / HEADING_STEP) * HEADING_STEP) % 360;
+  const key = `${rotation}:${highlighted}`;
+  let icon = flightIconCache.get(key);
+  if (!icon) {
+    const glow = highlighted ? ' filter: drop-shadow(0 0 4px #22c55e) drop-shadow(0 0 2px #22c55e);' : '';
+    icon = L.divIcon({
+      html: `<span style="transform: rotate(${rotation}deg); display: inline-block; font-size: 24px;${glow}">✈️</span>`,
+      className: 'bg-transparent border-0',
+      iconSize: [24, 24],
+      iconAnchor: [12, 12],
+    });
+    flightIconCache.set(key, icon);
+  }
+  return icon;
+};
+
+// Gets the bubble icon for a cluster of aircraft, sized by how many it holds.
+const getClusterIcon = (count: number): L.DivIcon => {
+  let icon = clusterIconCache.get(count);
+  if (!icon) {
+    const size = count < 10 ? 30 : count < 100 ? 38 : 46;
+    icon = L.divIcon({
+      html: `<div style="width:${size}px;height:${size}px;line-height:${size}px" class="rounded-full bg-blue-600/80 border-2 border-blue-300 text-white text-xs font-bold text-center">${count}</div>`,
+      className: 'bg-transparent border-0',
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+    });
+    clusterIconCache.set(count, icon);
+  }
+  return icon;
+};
+
+// One marker per aircraft.
+const SingleMarker: React.FC<{
+  flight: FlightState;
+  highlighted: boolean;
+  onSelect: (flight: FlightState) => void;
+}> = ({ flight, highlighted, onSelect }) => (
+  <Marker
+    position={[flight.latitude!, flight.longitude!]}
+    icon={getFlightIcon(flight.true_track, highlighted)}
+    eventHandlers={{ click: () => onSelect(flight) }}
+  />
+);
+
+// Draws aircraft as markers, optionally grouped into clusters that split apart as the user zooms in.
+export default function FlightMarkers({ flights, clustered, highlightedIds, onSelect }: FlightMarkersProps): React.ReactElement {
+  const map = useMap();
+  // The current zoom, so clusters are rebuilt when it changes
+  const [zoom, setZoom] = useState<number>(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  const positioned = useMemo(
+    () => flights.filter(flight => flight.latitude !== null && flight.longitude !== null),
+    [flights]
+  );
+  const clusters = useMemo(
+    () => (clustered && zoom < CLUSTER_MAX_ZOOM ? clusterFlights(positioned, zoom) : null),
+    [positioned, clustered, zoom]
+  );
+
+  if (!clusters) {
+    return <>{positioned.map(flight => <SingleMarker key={flight.icao24} flight={flight} highlighted={highlightedIds.has(flight.icao24)} onSelect={onSelect} />)}</>;
+  }
+
+  return (
+    <>
+      {clusters.map(cluster => cluster.flights.length === 1 ? (
+        <SingleMarker
+          key={cluster.flights[0].icao24}
+          flight={cluster.flights[0]}
+          highlighted={highlightedIds.has(cluster.flights[0].icao24)}
+          onSelect={onSelect}
+        />
+      ) : (
+        <Marker
+          key={cluster.id}
+          position={[cluster.latitude, cluster.longitude]}
+          icon={getClusterIcon(cluster.flights.length)}
+          eventHandlers={{
+            // Zoom in far enough to split the cluster up.
+            click: () => map.fitBounds(
+              L.latLngBounds(cluster.flights.map(flight => [flight.latitude!, flight.longitude!])),
+              { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM }
+            ),
+          }}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { FlightFetchResult } from '../types';
+
+// Define the properties this component expects to receive.
+interface FlightStatusBannerProps {
+  result: FlightFetchResult | null;
+  nextPollAt: number | null; // ms since epoch
+  hasStaleData: boolean; // whether older flights are still on screen
+}
+
+// Formats how long until the next poll, e.g. "in 2 min" or "in 45 s".
+const formatWait = (until: number | null): string => {
+  if (until === null) return '';
+  const seconds = Math.max(0, Math.round((until - Date.now()) / 1000));
+  return seconds >= 120 ? ` in ${Math.round(seconds / 60)} min` : ` in ${seconds} s`;
+};
+
+// Tells the user whether the flight data is live, and if not, why and when we'll try again.
+export default function FlightStatusBanner({ result, nextPollAt, hasStaleData }: FlightStatusBannerProps): React.ReactElement {
+  if (!result || result.status === 'ok') return null;
+
+  const staleNote = hasStaleData ? ' The map shows the last positions we received.' : '';
+
+  if (result.status === 'empty') {
+    return (
+      <div role="status" className="mb-4 p-3 rounded-lg border border-gray-600 bg-gray-800 text-gray-300 text-sm">
+        ✅ Connected — there are no aircraft in this area right now.
+      </div>
+    );
+  }
+
+  if (result.status === 'rate-limited') {
+    return (
+      <div role="status" className="mb-4 p-3 rounded-lg border border-yellow-700 bg-yellow-900/40 text-yellow-200 text-sm">
+        ⏳ The flight data service is rate limiting us. Retrying{formatWait(nextPollAt)}.{staleNote}
+      </div>
+    );
+  }
+
+  const headline = result.kind === 'auth'
+    ? '🔑 The flight data service rejected our credentials.'
+    : result.kind === 'network'
+      ? '📴 The flight data service can’t be reached.'
+      : '⚠️ The flight data service is having problems.';
+
+  return (
+    <div role="alert" className="mb-4 p-3 rounded-lg border border-red-700 bg-red-900/40 text-red-200 text-sm">
+      {headline} {result.message} Retrying{formatWait(nextPollAt)}.{staleNote}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Polyline } from 'react-leaflet';
+import { FlightTrail, TrailPoint } from '../types';
+import { ALTITUDE_COLOR_BANDS } from '../constants';
+import { TrailStore } from '../utils/trailStore';
+
+// Define the properties this component expects to receive.
+interface FlightTrailsProps {
+  trails: TrailStore;
+  trailMinutes: number; // how far back to draw; 0 draws everything we have
+}
+
+// Used for positions without an altitude.
+const UNKNOWN_ALTITUDE_COLOR = '#9ca3af';
+
+/**
+ * Picks the trail colour for an altitude.
+ * @param altitude The altitude in meters, or null if unknown
+ * @returns A CSS colour
+ */
+export const getAltitudeColor = (altitude: number | null): string => {
+  if (altitude === null) return UNKNOWN_ALTITUDE_COLOR;
+  return (ALTITUDE_COLOR_BANDS.find(band => altitude < band.maxAltitude) ?? ALTITUDE_COLOR_BANDS[ALTITUDE_COLOR_BANDS.length - 1]).color;
+};
+
+/**
+ * Splits a trail into runs of consecutive points that share a colour, so each run can be drawn as one polyline.
+ * Neighbouring runs share their boundary point, so the drawn line has no gaps.
+ */
+const splitByColor = (points: TrailPoint[]): { color: string; positions: [number, number][] }[] => {
+  const runs: { color: string; positions: [number, number][] }[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const color = getAltitudeColor(points[i].altitude);
+    const from: [number, number] = [points[i - 1].latitude, points[i - 1].longitude];
+    const to: [number, number] = [points[i].latitude, points[i].longitude];
+    const current = runs[runs.length - 1];
+    if (current && current.color === color) {
+      current.positions.push(to);
+    } else {
+      runs.push({ color, positions: [from, to] });
+    }
+  }
+  return runs;
+};
+
+// Draws where each aircraft has been, coloured by altitude.
+const TrailLine: React.FC<{ trail: FlightTrail; since: number }> = ({ trail, since }) => {
+  const points = trail.points.filter(point => point.timestamp >= since);
+  if (points.length < 2) return null;
+  return (
+    <>
+      {splitByColor(points).map((run, index) => (
+        <Polyline key={index} positions={run.positions} pathOptions={{ color: run.color, weight: 2, opacity: 0.8 }} />
+      ))}
+    </>
+  );
+};
+
+export default function FlightTrails({ trails, trailMinutes }: FlightTrailsProps): React.ReactElement {
+  // Points carry the source's clock (a replay's recording time, or a receiver's own clock), not the browser's,
+  // so the window is measured back from the latest poll rather than from now.
+  const latest = Math.max(0, ...[...trails.values()].map(trail => trail.lastSeen));
+  const since = trailMinutes > 0 ? latest - trailMinutes * 60_000 : 0;
+  return (
+    <>
+      {[...trails.values()].map(trail => (
+        <TrailLine key={trail.icao24} trail={trail} since={since} />
+      ))}
+    </>
+  );
+}
+
+// A small key explaining the trail colours, shown under the map.
+export const AltitudeLegend: React.FC = () => (
+  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+    {ALTITUDE_COLOR_BANDS.map(band => (
+      <span key={band.label} className="flex items-center gap-1">
+        <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: band.color }} />
+        {band.label}
+      </span>
+    ))}
+  </div>
+);
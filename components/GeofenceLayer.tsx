@@ -0,0 +1,59 @@
+import React, { useEffect } from 'react';
+import { Circle, CircleMarker, Polygon, Polyline, Tooltip, useMapEvents } from 'react-leaflet';
+import { Geofence, GeofenceShape } from '../types';
+
+// The kinds of fence the user can draw.
+export type GeofenceDrawMode = GeofenceShape['kind'];
+
+// Define the properties this component expects to receive.
+interface GeofenceLayerProps {
+  fences: Geofence[];
+  drawMode: GeofenceDrawMode | null; // set while the user is drawing a new fence
+  draftPoints: [number, number][]; // the clicks made so far for the new fence
+  onMapClick: (point: [number, number]) => void;
+}
+
+const FENCE_COLOR = '#f59e0b';
+const DRAFT_COLOR = '#60a5fa';
+
+// Reports map clicks while drawing, and shows a crosshair cursor so the user knows the map is in drawing mode.
+const DrawingClickHandler = ({ onMapClick }: { onMapClick: (point: [number, number]) => void }) => {
+  const map = useMapEvents({
+    click: (event) => onMapClick([event.latlng.lat, event.latlng.lng]),
+  });
+
+  useEffect(() => {
+    const container = map.getContainer();
+    container.style.cursor = 'crosshair';
+    return () => {
+      container.style.cursor = '';
+    };
+  }, [map]);
+
+  return null;
+};
+
+// Draws the user's geofences on the map, plus the fence being drawn.
+export default function GeofenceLayer({ fences, drawMode, draftPoints, onMapClick }: GeofenceLayerProps): React.ReactElement {
+  return (
+    <>
+      {fences.map(fence => {
+        const style = { color: FENCE_COLOR, weight: 2, fillOpacity: 0.08 };
+        const label = <Tooltip sticky>{fence.name}</Tooltip>;
+        return fence.shape.kind === 'circle' ? (
+          <Circle key={fence.id} center={fence.shape.center} radius={fence.shape.radiusKm * 1000} pathOptions={style}>{label}</Circle>
+        ) : (
+          <Polygon key={fence.id} positions={fence.shape.points} pathOptions={style}>{label}</Polygon>
+        );
+      })}
+
+      {drawMode && <DrawingClickHandler onMapClick={onMapClick} />}
+      {drawMode && draftPoints.map((point, index) => (
+        <CircleMarker key={index} center={point} radius={4} pathOptions={{ color: DRAFT_COLOR }} />
+      ))}
+      {drawMode === 'polygon' && draftPoints.length > 1 && (
+        <Polyline positions={draftPoints} pathOptions={{ color: DRAFT_COLOR, dashArray: '4 4' }} />
+      )}
+    </>
+  );
+}
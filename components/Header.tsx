@@ -1,18 +1,37 @@
 import React from 'react';
 
+// Define the properties this component expects to receive.
+interface HeaderProps {
+  currencies: string[]; // ISO 4217 codes offset costs can be shown in
+  currency: string;
+  onCurrencyChange: (currency: string) => void;
+}
+
 // This is the header component for our application.
-// It displays the title and a brief description.
-export default function Header(): React.ReactElement {
+// It displays the title, a brief description and the currency used for offset costs.
+export default function Header({ currencies, currency, onCurrencyChange }: HeaderProps): React.ReactElement {
   return (
     <header className="bg-gray-900 shadow-lg border-b border-gray-700">
-      <div className="container mx-auto px-4 md:px-8 py-4">
-        <h1 className="text-3xl font-bold text-green-500">
-          EcoFly ✈️ – Smart CO₂ Calculator for Greener Skies
-        </h1>
-        <p className="text-gray-300 mt-1">
-          Understand your carbon footprint and discover sustainable travel options.
-        </p>
+      <div className="container mx-auto px-4 md:px-8 py-4 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-green-500">
+            EcoFly ✈️ – Smart CO₂ Calculator for Greener Skies
+          </h1>
+          <p className="text-gray-300 mt-1">
+            Understand your carbon footprint and discover sustainable travel options.
+          </p>
+        </div>
+        <label className="print-hidden flex items-center gap-2 text-sm text-gray-300">
+          💱 Currency
+          <select
+            value={currency}
+            onChange={(e) => onCurrencyChange(e.target.value)}
+            className="p-2 bg-gray-800 border border-gray-600 rounded-lg text-white"
+          >
+            {currencies.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+        </label>
       </div>
     </header>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { FlightState, HistorySnapshot } from '../types';
+import { clearHistory, getRecordedRange, getSnapshots } from '../services/historyStore';
+import { interpolateFlights } from '../utils/historyPlayback';
+
+// Define the properties this component expects to receive.
+interface HistoryTimelineProps {
+  sourceId: string; // whose recorded history to play
+  onFlightsChange: (flights: FlightState[], time: number) => void; // the aircraft to show at the current playback moment
+}
+
+// The windows of recorded history the user can load. null loads everything that was recorded.
+const WINDOW_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: 'Last hour', ms: 3_600_000 },
+  { label: 'Last 6 hours', ms: 6 * 3_600_000 },
+  { label: 'Last 24 hours', ms: 24 * 3_600_000 },
+  { label: 'Everything recorded', ms: null },
+];
+
+// The playback speeds the user can choose from. History covers hours, so these go much faster than real time.
+const SPEED_OPTIONS = [1, 10, 60, 300, 900];
+
+// How often the playback clock moves the aircraft along.
+const TICK_MS = 250;
+
+// Formats a playback moment with the date, since a window can span midnight.
+const formatMoment = (time: number): string =>
+  new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// A timeline scrubber for replaying the traffic recorded by the tracker.
+export default function HistoryTimeline({ sourceId, onFlightsChange }: HistoryTimelineProps): React.ReactElement {
+  const [windowMs, setWindowMs] = useState<number | null>(WINDOW_OPTIONS[0].ms);
+  const [snapshots, setSnapshots] = useState<HistorySnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [time, setTime] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(60);
+  // Bumped to reload the snapshots, picking up anything recorded since they were last loaded
+  const [reloadCount, setReloadCount] = useState<number>(0);
+
+  // Load the chosen window of history, ending at the most recent snapshot.
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const range = await getRecordedRange(sourceId);
+        const loaded = range
+          ? await getSnapshots(sourceId, windowMs === null ? range.start : range.end - windowMs, range.end)
+          : [];
+        if (cancelled) return;
+        setSnapshots(loaded);
+        setTime(loaded.length > 0 ? loaded[0].timestamp : 0);
+        setIsPlaying(false);
+      } catch (err) {
+        console.error('Error loading traffic history:', err);
+        if (!cancelled) setError('Traffic history could not be read from this browser.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId, windowMs, reloadCount]);
+
+  const startTime = snapshots.length > 0 ? snapshots[0].timestamp : 0;
+  const endTime = snapshots.length > 0 ? snapshots[snapshots.length - 1].timestamp : 0;
+
+  // Advance the playback clock while playing, stopping at the end of the window.
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => setTime(current => Math.min(current + TICK_MS * speed, endTime)), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, endTime]);
+
+  useEffect(() => {
+    if (isPlaying && time >= endTime) setIsPlaying(false);
+  }, [isPlaying, time, endTime]);
+
+  // Tell the tracker which aircraft to show at the current moment.
+  useEffect(() => {
+    onFlightsChange(interpolateFlights(snapshots, time), time);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshots, time]);
+
+  const togglePlaying = () => {
+    // Pressing play at the end starts again from the beginning.
+    if (!isPlaying && time >= endTime) setTime(startTime);
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all recorded traffic history for this data source?')) return;
+    try {
+      await clearHistory(sourceId);
+    } catch (err) {
+      console.error('Error clearing traffic history:', err);
+    }
+    setReloadCount(count => count + 1);
+  };
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-gray-700 bg-gray-800 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <button
+          onClick={togglePlaying}
+          disabled={snapshots.length < 2}
+          className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition disabled:bg-gray-600"
+        >
+          {isPlaying ? '⏸ Pause' : '▶️ Play'}
+        </button>
+        <label className="flex items-center gap-2">
+          Speed
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="p-1 bg-gray-900 border border-gray-600 rounded-lg text-white"
+          >
+            {SPEED_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}×</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Window
+          <select
+            value={windowMs === null ? 'all' : String(windowMs)}
+            onChange={(e) => setWindowMs(e.target.value === 'all' ? null : Number(e.target.value))}
+            className="p-1 bg-gray-900 border border-gray-600 rounded-lg text-white"
+          >
+            {WINDOW_OPTIONS.map(option => (
+              <option key={option.label} value={option.ms === null ? 'all' : option.ms}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => setReloadCount(count => count + 1)} className="text-blue-400 hover:underline">
+          Reload
+        </button>
+        <button onClick={handleClear} className="text-red-400 hover:underline ml-auto">
+          Clear history
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-400">Loading recorded traffic...</p>
+      ) : error ? (
+        <p className="text-red-300">{error}</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-gray-400">Nothing has been recorded for this data source yet. Leave recording on and come back later.</p>
+      ) : (
+        <>
+          <input
+            type="range"
+            min={startTime}
+            max={endTime}
+            step={1000}
+            value={time}
+            onChange={(e) => setTime(Number(e.target.value))}
+            aria-label="Playback time"
+            className="w-full accent-blue-500"
+          />
+          <div className="flex justify-between text-xs font-mono text-gray-400">
+            <span>{formatMoment(startTime)}</span>
+            <span className="text-gray-200">{formatMoment(time)}</span>
+            <span>{formatMoment(endTime)}</span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{snapshots.length} snapshots loaded</p>
+        </>
+      )}
+    </div>
+  );
+}
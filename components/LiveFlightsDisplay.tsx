@@ -1,32 +1,142 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { FlightState } from '../types';
-import { fetchLiveFlights } from '../services/openskyService';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Airport, AirportEvent, BoundingBox, BurnEstimate, FlightDataSource, FlightFetchResult, FlightLeg, FlightPhase, FlightState, Geofence, MapRenderMode, MapUrlState, MapView, RegionPreset, TrackerAlert, Watchlist } from '../types';
+import { AIRPORTS, CANVAS_THRESHOLD, CLUSTER_THRESHOLD, MAP_RENDER_MODES, MAX_AIRPORT_EVENTS, MAX_TRACKER_ALERTS, REGION_PRESETS, ROUTE_CORRIDOR_MAX_HEADING_DIFF, ROUTE_CORRIDOR_WIDTH_KM, VIEWPORT_FETCH_DEBOUNCE_MS } from '../constants';
+import { FLIGHT_DATA_SOURCES } from '../services/flightDataSources';
+import { estimateBurnRate } from '../utils/flightBurn';
+import { TrailStore, updateTrails } from '../utils/trailStore';
+import { getNextPollDelay } from '../utils/polling';
+import { AirportWatchStore, detectAirportEvents } from '../utils/airportEvents';
+import { AlertWatchStore, detectTrackerAlerts } from '../utils/trackerAlerts';
+import { findMatchingWatchlists, getSavedWatchlists, saveWatchlists } from '../utils/watchlist';
+import { getSavedGeofences, saveGeofences } from '../utils/geofence';
+import { showBrowserNotification } from '../utils/notifications';
+import { calculateDistance } from '../utils/calculator';
+import { isFollowingRoute } from '../utils/geodesic';
+import { loadFromStorage, saveToStorage } from '../utils/storage';
+import { saveSnapshot } from '../services/historyStore';
+import { getLiveBurnMethodology } from '../utils/methodology';
+import { buildFlightsCsv, buildFlightsGeoJson, downloadFile, getExportFileName } from '../utils/export';
+import { readMapState, writeMapState } from '../utils/urlState';
+import { MapContainer, TileLayer, Popup, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
+import FlightTrails, { AltitudeLegend } from './FlightTrails';
+import FlightStatusBanner from './FlightStatusBanner';
+import ReplayControls from './ReplayControls';
+import HistoryTimeline from './HistoryTimeline';
+import AirportBoard from './AirportBoard';
+import GeofenceLayer, { GeofenceDrawMode } from './GeofenceLayer';
+import AlertSettings from './AlertSettings';
+import AlertFeed from './AlertFeed';
+import FlightMarkers from './FlightMarkers';
+import FlightCanvasLayer from './FlightCanvasLayer';
+import { RouteLines } from './RouteMap';
+import ExportButtons from './ExportButtons';
+
+// Used when no trip has been calculated, so the prop's default doesn't change on every render.
+const NO_ROUTE: FlightLeg[] = [];
+
+// The region selector value for following whatever area the map shows.
+const VIEWPORT_REGION = 'viewport';
+
+// The trail lengths the user can choose from. null hides trails; 0 shows everything recorded this session.
+const TRAIL_LENGTH_OPTIONS: { label: string; minutes: number | null }[] = [
+  { label: 'Off', minutes: null },
+  { label: '5 min', minutes: 5 },
+  { label: '15 min', minutes: 15 },
+  { label: '30 min', minutes: 30 },
+  { label: 'Whole session', minutes: 0 },
+];
 
 // Define the keys of a FlightState object that we want to allow sorting on.
-type SortableKey = 'callsign' | 'origin_country' | 'velocity' | 'baro_altitude';
+const SORTABLE_KEYS = ['callsign', 'origin_country', 'velocity', 'baro_altitude'] as const;
+type SortableKey = typeof SORTABLE_KEYS[number];
+
+// Icons and labels for each flight phase, shown next to the CO2 estimate.
+const PHASE_LABELS: Record<FlightPhase, string> = {
+  ground: '🛞 Ground',
+  climb: '↗️ Climb',
+  cruise: '➡️ Cruise',
+  descent: '↘️ Descent',
+};
+
+// Formats a CO2 rate in kg/h, switching to tonnes for large values.
+const formatCo2Rate = (kgPerHour: number): string =>
+  kgPerHour >= 1000 ? `${(kgPerHour / 1000).toFixed(1)} t/h` : `${Math.round(kgPerHour)} kg/h`;
+
+// The phase and burn lines shown in a flight's map popup.
+const BurnDetails: React.FC<{ estimate: BurnEstimate }> = ({ estimate }) => (
+  <>
+    <p className="m-0 p-0"><strong>Phase:</strong> {PHASE_LABELS[estimate.phase]}</p>
+    <p className="m-0 p-0">
+      <strong>Est. burn:</strong> {Math.round(estimate.fuelKgPerHour)} kg fuel/h ({formatCo2Rate(estimate.co2KgPerHour)} CO₂)
+    </p>
+  </>
+);
+
+// The CO2 rate and phase shown in a flight's table row.
+const BurnCell: React.FC<{ estimate: BurnEstimate }> = ({ estimate }) => (
+  <>
+    {formatCo2Rate(estimate.co2KgPerHour)}
+    <span className="block text-xs text-gray-400">{PHASE_LABELS[estimate.phase]}</span>
+  </>
+);
 
 /**
  * A controller component that uses react-leaflet's `useMap` hook to interact with the map instance.
  * This is the standard way to add imperative logic like fitting bounds or flying to a location.
  */
-const MapController = ({ flights, centerTarget }: { flights: FlightState[], centerTarget: L.LatLngExpression | null }) => {
+const MapController = ({ flights, centerTarget, region, autoFit, fitRequest, keepInitialView }: {
+  flights: FlightState[],
+  centerTarget: L.LatLngExpression | null,
+  region: RegionPreset | null,
+  autoFit: boolean,
+  fitRequest: number, // bumped each time the user asks to fit the map to the aircraft
+  keepInitialView: boolean, // true when a shared link set the map view, so the first region shouldn't move it
+}) => {
   const map = useMap();
+  // Whether we've already fitted the map to this region's aircraft, so later polls leave the user's pan and zoom alone
+  const hasFitRef = useRef<boolean>(keepInitialView);
+  // The region the map was last moved to, so it only moves when the user picks another one
+  const shownRegionRef = useRef<RegionPreset | null | undefined>(keepInitialView ? region : undefined);
+  // The latest flights, read when the user asks for a fit
+  const flightsRef = useRef<FlightState[]>(flights);
+  flightsRef.current = flights;
 
-  // This effect runs whenever the list of flights changes.
-  // It calculates the bounding box of all flights and zooms the map to fit them.
+  // Zooms the map so every aircraft is visible.
+  const fitToFlights = () => {
+    const validFlights = flightsRef.current.filter(f => f.latitude != null && f.longitude != null);
+    if (validFlights.length === 0) return false;
+    const bounds = L.latLngBounds(
+      validFlights.map(f => [f.latitude!, f.longitude!])
+    );
+    map.fitBounds(bounds, { padding: [50, 50] }); // Add padding so markers aren't on the edge
+    return true;
+  };
+
+  // This effect runs when the user picks a different region preset and moves the map there.
   useEffect(() => {
-    if (flights.length > 0) {
-      const validFlights = flights.filter(f => f.latitude != null && f.longitude != null);
-      if (validFlights.length > 0) {
-        const bounds = L.latLngBounds(
-          validFlights.map(f => [f.latitude!, f.longitude!])
-        );
-        map.fitBounds(bounds, { padding: [50, 50] }); // Add padding so markers aren't on the edge
-      }
+    if (region === shownRegionRef.current) return;
+    shownRegionRef.current = region;
+    hasFitRef.current = false;
+    if (region) {
+      map.setView(region.center, region.zoom);
     }
-  }, [flights, map]);
+  }, [region, map]);
+
+  // This effect fits the map to the aircraft the first time they arrive for a region.
+  // It is skipped while following the viewport, since moving the map would trigger another fetch.
+  useEffect(() => {
+    if (autoFit && !hasFitRef.current) {
+      hasFitRef.current = fitToFlights();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [flights, autoFit]);
+
+  // This effect runs when the user clicks 'Fit to aircraft'.
+  useEffect(() => {
+    if (fitRequest > 0) fitToFlights();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fitRequest]);
 
   // This effect runs when a user clicks the 'Center on Flight' button.
   // It smoothly flies the map view to the selected flight's coordinates.
@@ -39,49 +149,328 @@ const MapController = ({ flights, centerTarget }: { flights: FlightState[], cent
   return null; // This component does not render any visible elements.
 };
 
+/**
+ * Reports the area the map currently shows, once on mount and then each time the user stops panning or zooming.
+ * Reports are debounced so that a drag across the map results in a single fetch.
+ */
+const ViewportWatcher = ({ onBoundsChange }: { onBoundsChange: (bounds: BoundingBox) => void }) => {
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const report = (map: L.Map) => {
+    const bounds = map.getBounds();
+    onBoundsChange({
+      lamin: bounds.getSouth(),
+      lomin: bounds.getWest(),
+      lamax: bounds.getNorth(),
+      lomax: bounds.getEast(),
+    });
+  };
+
+  const map = useMapEvents({
+    moveend: () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => report(map), VIEWPORT_FETCH_DEBOUNCE_MS);
+    },
+  });
+
+  useEffect(() => {
+    report(map);
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map]);
 
-// This component fetches and displays live flight data for the Nepal region.
-export default function LiveFlightsDisplay(): React.ReactElement {
+  return null;
+};
+
+// Reports where the map is centred and how far it is zoomed in, each time the user stops panning or zooming.
+const MapViewWatcher = ({ onViewChange }: { onViewChange: (view: MapView) => void }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onViewChange({ lat: center.lat, lng: center.lng, zoom: map.getZoom() });
+    },
+  });
+  return null;
+};
+
+// Define the properties this component expects to receive.
+interface LiveFlightsDisplayProps {
+  sources?: FlightDataSource[]; // where flight positions can come from; the first is used by default
+  airports?: Airport[]; // airports to watch for takeoffs, landings and approaches
+  routeLegs?: FlightLeg[]; // the trip from the calculator, whose corridor can be highlighted
+}
+
+// This component fetches and displays live flight data for a selectable region.
+export default function LiveFlightsDisplay({ sources = FLIGHT_DATA_SOURCES, airports = AIRPORTS, routeLegs = NO_ROUTE }: LiveFlightsDisplayProps): React.ReactElement {
+  // The region, map view, filter, sort and selected aircraft from the page address, read once so a shared link opens the same view
+  const [urlState] = useState<MapUrlState>(readMapState);
+  // State for which data source positions come from
+  const [sourceId, setSourceId] = useState<string>(sources[0].id);
+  // State for which region preset is watched, or VIEWPORT_REGION to follow the map
+  const [regionId, setRegionId] = useState<string>(() =>
+    urlState.regionId && (urlState.regionId === VIEWPORT_REGION || REGION_PRESETS.some(preset => preset.id === urlState.regionId))
+      ? urlState.regionId
+      : REGION_PRESETS[0].id
+  );
+  // State for where the map is centred and its zoom, kept in the page address
+  const [mapView, setMapView] = useState<MapView | null>(urlState.view);
+  // State for the area the map shows, used in "follow viewport" mode
+  const [viewportBounds, setViewportBounds] = useState<BoundingBox | null>(null);
   // State to store the list of flights
   const [flights, setFlights] = useState<FlightState[]>([]);
   // State to manage loading status
   const [isLoading, setIsLoading] = useState<boolean>(true);
   // State to store the last update time
   const [lastUpdated, setLastUpdated] = useState<string>('');
+  const [lastFetchedAt, setLastFetchedAt] = useState<number>(0); // ms since epoch, for exports
   // State for the filter input
-  const [filterQuery, setFilterQuery] = useState<string>('');
+  const [filterQuery, setFilterQuery] = useState<string>(urlState.filter);
   // State for the table sorting configuration
-  const [sortConfig, setSortConfig] = useState<{ key: SortableKey | null; direction: 'ascending' | 'descending' }>({ key: null, direction: 'ascending' });
+  const [sortConfig, setSortConfig] = useState<{ key: SortableKey | null; direction: 'ascending' | 'descending' }>(() => {
+    const { sort } = urlState;
+    const sortKey = SORTABLE_KEYS.find(key => key === sort?.key);
+    return sort && sortKey ? { key: sortKey, direction: sort.direction } : { key: null, direction: 'ascending' };
+  });
   // State to track which flight the user wants to center on.
   const [centerTarget, setCenterTarget] = useState<L.LatLngExpression | null>(null);
+  // State for the estimated CO2 emitted by all aircraft in the region since the page was opened (kg)
+  const [sessionCo2, setSessionCo2] = useState<number>(0);
+  // When the previous data arrived, and the region's total CO2 rate at that time
+  const lastPollRef = useRef<{ time: number; co2KgPerHour: number } | null>(null);
+  // State for each aircraft's position history across polls, and how far back to draw it (minutes, 0 = all, null = hidden)
+  const [trails, setTrails] = useState<TrailStore>(new Map());
+  const [trailMinutes, setTrailMinutes] = useState<number | null>(15);
+  // State for the km flown by all aircraft inside the region this session, including aircraft that have since left
+  const [sessionDistance, setSessionDistance] = useState<number>(0);
+  // The latest trails, read by getFlightData so consecutive polls build on each other
+  const trailsRef = useRef<TrailStore>(trails);
+  // State for the takeoffs, landings and approaches seen this session (newest first), and what each aircraft was doing last poll
+  const [airportEvents, setAirportEvents] = useState<AirportEvent[]>([]);
+  const airportWatchRef = useRef<AirportWatchStore>(new Map());
+  // State for how aircraft are drawn on the map, the aircraft whose popup is open,
+  // and a counter bumped when the user asks to fit the map to the aircraft
+  const [renderMode, setRenderMode] = useState<MapRenderMode>(() => loadFromStorage('mapRenderMode', 'auto'));
+  const [selectedFlightId, setSelectedFlightId] = useState<string | null>(urlState.flightId);
+  const [fitRequest, setFitRequest] = useState<number>(0);
+  // State for whether to draw the calculator's route and highlight aircraft flying along it
+  const [highlightRoute, setHighlightRoute] = useState<boolean>(false);
+  // State for the user's watchlists and geofences, read by getFlightData through refs, and the alerts they raised (newest first)
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(getSavedWatchlists);
+  const [fences, setFences] = useState<Geofence[]>(getSavedGeofences);
+  const watchlistsRef = useRef<Watchlist[]>(watchlists);
+  watchlistsRef.current = watchlists;
+  const fencesRef = useRef<Geofence[]>(fences);
+  fencesRef.current = fences;
+  const [alerts, setAlerts] = useState<TrackerAlert[]>([]);
+  const alertWatchRef = useRef<AlertWatchStore>(new Map());
+  // State for drawing a new geofence: which shape, and the points clicked so far
+  const [drawMode, setDrawMode] = useState<GeofenceDrawMode | null>(null);
+  const [draftPoints, setDraftPoints] = useState<[number, number][]>([]);
+  // State for whether each poll is saved to the browser's traffic history, read by getFlightData through a ref
+  const [recordHistory, setRecordHistory] = useState<boolean>(() => loadFromStorage('recordHistory', true));
+  const recordHistoryRef = useRef<boolean>(recordHistory);
+  recordHistoryRef.current = recordHistory;
+  // State for history mode, which shows recorded traffic at the timeline's moment instead of the latest poll
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [historyFlights, setHistoryFlights] = useState<FlightState[]>([]);
+  const [historyTime, setHistoryTime] = useState<number>(0); // the moment the history timeline shows
+
+  const source = sources.find(candidate => candidate.id === sourceId) ?? sources[0];
+  // The poll callback reads the source through a ref so it always uses the one currently selected.
+  const sourceRef = useRef<FlightDataSource>(source);
+  sourceRef.current = source;
+  const region = REGION_PRESETS.find(preset => preset.id === regionId) ?? null;
+  const activeBounds = region ? region.bounds : viewportBounds;
+  // The interval callback reads the bounds through a ref so it always fetches the current area.
+  const boundsRef = useRef<BoundingBox | null>(activeBounds);
+  boundsRef.current = activeBounds;
+  // Counts requests so that a slow response for a previous area can't overwrite a newer one.
+  const requestIdRef = useRef<number>(0);
+  // State for the outcome of the last request and when the next one is due
+  const [fetchResult, setFetchResult] = useState<FlightFetchResult | null>(null);
+  const [nextPollAt, setNextPollAt] = useState<number | null>(null);
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const consecutiveFailuresRef = useRef<number>(0);
+
+  // Schedules the next poll, replacing any poll that was already scheduled.
+  const scheduleNextPoll = (delayMs: number) => {
+    if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+    pollTimerRef.current = setTimeout(() => getFlightData(), delayMs);
+    setNextPollAt(Date.now() + delayMs);
+  };
 
   // This function fetches the flight data from the service.
   const getFlightData = async () => {
+    const bounds = boundsRef.current;
+    if (!bounds) return;
+    const requestId = ++requestIdRef.current;
+
     setIsLoading(true);
-    const flightData = await fetchLiveFlights();
-    setFlights(flightData);
-    setLastUpdated(new Date().toLocaleTimeString());
+    const currentSource = sourceRef.current;
+    const result = await currentSource.fetchFlights(bounds);
+    if (requestId !== requestIdRef.current) return;
+
+    // Poll again sooner or later depending on how this request went.
+    const failed = result.status === 'error' || result.status === 'rate-limited';
+    consecutiveFailuresRef.current = failed ? consecutiveFailuresRef.current + 1 : 0;
+    scheduleNextPoll(getNextPollDelay(result, consecutiveFailuresRef.current, currentSource.pollIntervalMs));
+    setFetchResult(result);
     setIsLoading(false);
+
+    // On failure we keep showing the last flights we received rather than clearing the map.
+    if (failed) return;
+
+    const flightData = result.status === 'ok' ? result.flights : [];
+    const now = result.fetchedAt;
+
+    if (recordHistoryRef.current) {
+      saveSnapshot({ sourceId: currentSource.id, timestamp: now, flights: flightData })
+        .catch(error => console.warn('Could not save traffic history:', error));
+    }
+    const currentCo2Rate = flightData.reduce((sum, flight) => sum + estimateBurnRate(flight).co2KgPerHour, 0);
+
+    // A replay that loops back to its start goes back in time, so begin a fresh session.
+    if (lastPollRef.current && now < lastPollRef.current.time) {
+      resetSession();
+    }
+
+    // Add what the region emitted since the last poll, assuming the previous rate held until now.
+    const lastPoll = lastPollRef.current;
+    if (lastPoll) {
+      const elapsedHours = (now - lastPoll.time) / 3_600_000;
+      setSessionCo2(total => total + lastPoll.co2KgPerHour * elapsedHours);
+    }
+    lastPollRef.current = { time: now, co2KgPerHour: currentCo2Rate };
+
+    // Extend each aircraft's trail with its new position.
+    const { trails: nextTrails, distanceAdded } = updateTrails(trailsRef.current, flightData, now);
+    trailsRef.current = nextTrails;
+    setTrails(nextTrails);
+    setSessionDistance(total => total + distanceAdded);
+
+    // Look for aircraft taking off, landing or approaching at the airports we watch.
+    const { store: nextWatch, events } = detectAirportEvents(airportWatchRef.current, flightData, airports, now);
+    airportWatchRef.current = nextWatch;
+    if (events.length > 0) {
+      setAirportEvents(previous => [...events, ...previous].slice(0, MAX_AIRPORT_EVENTS));
+    }
+
+    // Raise alerts for watched aircraft and geofence crossings.
+    const { store: nextAlertWatch, alerts: newAlerts } = detectTrackerAlerts(
+      alertWatchRef.current, flightData, watchlistsRef.current, fencesRef.current, now
+    );
+    alertWatchRef.current = nextAlertWatch;
+    if (newAlerts.length > 0) {
+      setAlerts(previous => [...newAlerts, ...previous].slice(0, MAX_TRACKER_ALERTS));
+      showBrowserNotification(
+        newAlerts.length === 1 ? 'EcoFly alert' : `${newAlerts.length} EcoFly alerts`,
+        newAlerts.map(alert => alert.message).join('\n')
+      );
+    }
+
+    setFlights(flightData);
+    setLastUpdated(new Date(now).toLocaleTimeString());
+    setLastFetchedAt(now);
   };
 
-  // useEffect hook to fetch data when the component first loads,
-  // and then set up a timer to refresh the data every 60 seconds.
-  useEffect(() => {
-    getFlightData(); // Fetch initial data
+  // Clears the session totals and trails.
+  const resetSession = () => {
+    setSessionCo2(0);
+    lastPollRef.current = null;
+    trailsRef.current = new Map();
+    setTrails(trailsRef.current);
+    setSessionDistance(0);
+    airportWatchRef.current = new Map();
+    setAirportEvents([]);
+    alertWatchRef.current = new Map();
+  };
 
-    const intervalId = setInterval(() => {
-      getFlightData();
-    }, 60000); // Refresh every 60 seconds (60000 milliseconds)
+  // The session totals and trails only make sense for one region and one source, so they restart when either changes.
+  useEffect(() => {
+    resetSession();
+    consecutiveFailuresRef.current = 0;
+  }, [regionId, sourceId]);
 
-    // Cleanup function to clear the interval when the component is unmounted.
-    return () => clearInterval(intervalId);
+  // Fetch straight away whenever the watched area or the data source changes.
+  useEffect(() => {
+    getFlightData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeBounds, sourceId]);
+
+  // Cleanup function to cancel the scheduled poll when the component is unmounted.
+  // Polls are scheduled by getFlightData itself, at the interval the data source asks for.
+  useEffect(() => {
+    return () => {
+      if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+    };
   }, []);
   
+  // Remember the recording preference, map drawing mode, watchlists and geofences between visits.
+  useEffect(() => {
+    saveToStorage('recordHistory', recordHistory);
+  }, [recordHistory]);
+
+  useEffect(() => {
+    saveToStorage('mapRenderMode', renderMode);
+  }, [renderMode]);
+
+  useEffect(() => {
+    saveWatchlists(watchlists);
+  }, [watchlists]);
+
+  useEffect(() => {
+    saveGeofences(fences);
+  }, [fences]);
+
+  // Keep the view in the page address so it can be shared. The latest view is also kept in a ref,
+  // so it can be written back after Back or Forward brings up an address with an older view.
+  const mapUrlState: MapUrlState = {
+    regionId,
+    view: mapView,
+    filter: filterQuery,
+    sort: sortConfig.key ? { key: sortConfig.key, direction: sortConfig.direction } : null,
+    flightId: selectedFlightId,
+  };
+  const mapUrlStateRef = useRef<MapUrlState>(mapUrlState);
+  mapUrlStateRef.current = mapUrlState;
+
+  useEffect(() => {
+    writeMapState(mapUrlStateRef.current);
+  }, [regionId, mapView, filterQuery, sortConfig, selectedFlightId]);
+
+  useEffect(() => {
+    const handlePopState = () => writeMapState(mapUrlStateRef.current);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Adds a point to the fence being drawn. A circle is finished by its second click, which sets the radius.
+  const handleDrawClick = (point: [number, number]) => {
+    if (drawMode === 'circle' && draftPoints.length === 1) {
+      const [center] = draftPoints;
+      const radiusKm = calculateDistance(center[0], center[1], point[0], point[1]);
+      addFence({ kind: 'circle', center, radiusKm });
+    } else {
+      setDraftPoints([...draftPoints, point]);
+    }
+  };
+
+  // Saves a newly drawn fence and leaves drawing mode.
+  const addFence = (shape: Geofence['shape']) => {
+    setFences([...fences, { id: `fence-${Date.now().toString(36)}`, name: `Fence ${fences.length + 1}`, shape }]);
+    setDrawMode(null);
+    setDraftPoints([]);
+  };
+
+  // The aircraft on the map and in the table: the latest poll, or the recorded traffic in history mode.
+  const displayedFlights = showHistory ? historyFlights : flights;
+
   // Memoized function to filter and sort the flight data.
   // This ensures the complex logic only runs when data or settings change.
   const processedFlights = useMemo(() => {
-    let processableFlights = [...flights];
+    let processableFlights = [...displayedFlights];
 
     // 1. Filtering Logic
     if (filterQuery) {
@@ -113,7 +502,33 @@ export default function LiveFlightsDisplay(): React.ReactElement {
     }
 
     return processableFlights;
-  }, [flights, filterQuery, sortConfig]);
+  }, [displayedFlights, filterQuery, sortConfig]);
+
+  // Estimated fuel burn for every aircraft, keyed by icao24 so the map and table can share it.
+  const burnEstimates = useMemo(
+    () => new Map(displayedFlights.map(flight => [flight.icao24, estimateBurnRate(flight)])),
+    [displayedFlights]
+  );
+  // The aircraft on any watchlist, highlighted in the table.
+  const watchedIds = useMemo(
+    () => new Set(displayedFlights.filter(flight => findMatchingWatchlists(flight, watchlists).length > 0).map(flight => flight.icao24)),
+    [displayedFlights, watchlists]
+  );
+  // The aircraft flying along the calculator's route, highlighted on the map and in the table.
+  const routeFollowerIds = useMemo(
+    () => new Set(
+      highlightRoute && routeLegs.length > 0
+        ? displayedFlights
+          .filter(flight => isFollowingRoute(flight, routeLegs, ROUTE_CORRIDOR_WIDTH_KM, ROUTE_CORRIDOR_MAX_HEADING_DIFF))
+          .map(flight => flight.icao24)
+        : []
+    ),
+    [displayedFlights, routeLegs, highlightRoute]
+  );
+  const regionCo2Rate = useMemo(
+    () => [...burnEstimates.values()].reduce((sum, estimate) => sum + estimate.co2KgPerHour, 0),
+    [burnEstimates]
+  );
 
   // Handles click on a table header to set sorting state.
   const requestSort = (key: SortableKey) => {
@@ -142,23 +557,80 @@ export default function LiveFlightsDisplay(): React.ReactElement {
     return `${Math.round(altMeters * 3.28084)} ft`;
   };
 
-  // Creates a custom divIcon for a flight, allowing rotation.
-  const createFlightIcon = (rotation: number | null) => {
-    return L.divIcon({
-        html: `<span style="transform: rotate(${rotation || 0}deg); display: inline-block; font-size: 24px;">✈️</span>`,
-        className: 'bg-transparent border-0',
-        iconSize: [24, 24],
-        iconAnchor: [12, 12],
-    });
-  };
+  // The details shown when the user clicks an aircraft on the map.
+  const renderFlightPopup = (flight: FlightState) => (
+    <div className="text-sm -m-1">
+      <p className="font-bold font-mono m-0 p-0">{flight.callsign}</p>
+      <hr className="my-1 border-gray-500" />
+      <p className="m-0 p-0"><strong>Origin:</strong> {flight.origin_country}</p>
+      <p className="m-0 p-0"><strong>Speed:</strong> {formatSpeed(flight.velocity)}</p>
+      <p className="m-0 p-0"><strong>Altitude:</strong> {formatAltitude(flight.baro_altitude)}</p>
+      <BurnDetails estimate={burnEstimates.get(flight.icao24)!} />
+      <button
+        onClick={() => setCenterTarget([flight.latitude!, flight.longitude!])}
+        className="w-full text-center text-white bg-blue-600 rounded-md mt-2 px-2 py-1 text-xs hover:bg-blue-700 transition"
+      >
+        Center on Flight
+      </button>
+    </div>
+  );
+
+  // In "auto" mode, switch to cheaper drawing as the number of aircraft grows.
+  const effectiveRenderMode: MapRenderMode = renderMode !== 'auto' ? renderMode
+    : displayedFlights.length > CANVAS_THRESHOLD ? 'canvas'
+    : displayedFlights.length > CLUSTER_THRESHOLD ? 'clustered'
+    : 'markers';
+  const selectedFlight = displayedFlights.find(flight => flight.icao24 === selectedFlightId && flight.latitude !== null && flight.longitude !== null);
+
+  // A shared link's aircraft is centred on the first time it shows up, unless the link also set the map view.
+  const pendingCenterIdRef = useRef<string | null>(urlState.view ? null : urlState.flightId);
+  useEffect(() => {
+    if (selectedFlight && selectedFlight.icao24 === pendingCenterIdRef.current) {
+      pendingCenterIdRef.current = null;
+      setCenterTarget([selectedFlight.latitude!, selectedFlight.longitude!]);
+    }
+  }, [selectedFlight]);
 
-  const nepalCenter: L.LatLngExpression = [28.3949, 84.1240];
+  const initialRegion = REGION_PRESETS[0];
+
+  // Downloads the flights in the table, with how their fuel burn is estimated and when the positions are from.
+  const exportFlights = (format: 'csv' | 'geojson') => {
+    const dataTime = showHistory ? historyTime : lastFetchedAt;
+    const methodology = getLiveBurnMethodology(showHistory ? `${source.label} (recorded history)` : source.label, dataTime);
+    const fileName = getExportFileName(['flights', source.id], format, dataTime);
+    if (format === 'csv') downloadFile(buildFlightsCsv(processedFlights, methodology), fileName, 'text/csv');
+    else downloadFile(buildFlightsGeoJson(processedFlights, methodology), fileName, 'application/geo+json');
+  };
 
   return (
     <div className="bg-gray-900 p-6 rounded-xl shadow-md border border-gray-700">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-2xl font-bold text-gray-100">📡 Live Flights Over Nepal</h2>
-        <div className="text-right">
+        <h2 className="text-2xl font-bold text-gray-100">
+          📡 Live Flights Over {region ? region.name : 'the Map Area'}
+        </h2>
+        <div className="flex flex-col items-end gap-1 text-right">
+          <select
+            value={source.id}
+            onChange={(e) => setSourceId(e.target.value)}
+            aria-label="Data source"
+            title={source.description}
+            className="p-1 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm"
+          >
+            {sources.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+            ))}
+          </select>
+          <select
+            value={regionId}
+            onChange={(e) => setRegionId(e.target.value)}
+            aria-label="Region"
+            className="p-1 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm"
+          >
+            {REGION_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+            <option value={VIEWPORT_REGION}>Follow map viewport</option>
+          </select>
           <button onClick={getFlightData} disabled={isLoading} className="text-sm text-blue-400 hover:underline disabled:text-gray-500">
             {isLoading ? 'Refreshing...' : 'Refresh Now'}
           </button>
@@ -166,42 +638,164 @@ export default function LiveFlightsDisplay(): React.ReactElement {
         </div>
       </div>
       
+      {/* Play/pause and speed for recorded traffic */}
+      {source.playback && <ReplayControls playback={source.playback} onChange={getFlightData} />}
+
+      {/* Watchlist and geofence alerts */}
+      <AlertFeed
+        alerts={alerts}
+        onDismiss={(id) => setAlerts(alerts.filter(alert => alert.id !== id))}
+        onClear={() => setAlerts([])}
+      />
+
+      {/* Tells the user when data is missing because of rate limits or outages */}
+      <FlightStatusBanner result={fetchResult} nextPollAt={nextPollAt} hasStaleData={flights.length > 0} />
+
+      {/* Region-wide emission totals */}
+      {!showHistory && flights.length > 0 && (
+        <div className="grid md:grid-cols-3 gap-4 mb-4 text-center">
+          <div className="bg-gray-800 p-3 rounded-lg border border-gray-700">
+            <p className="text-sm text-gray-400">All {flights.length} aircraft are emitting about</p>
+            <p className="text-2xl font-bold text-orange-400">{formatCo2Rate(regionCo2Rate)} CO₂</p>
+          </div>
+          <div className="bg-gray-800 p-3 rounded-lg border border-gray-700">
+            <p className="text-sm text-gray-400">Emitted in the region since you opened this page</p>
+            <p className="text-2xl font-bold text-orange-400">{(sessionCo2 / 1000).toFixed(2)} t CO₂</p>
+          </div>
+          <div className="bg-gray-800 p-3 rounded-lg border border-gray-700">
+            <p className="text-sm text-gray-400">Distance flown in the region this session</p>
+            <p className="text-2xl font-bold text-blue-400">{Math.round(sessionDistance).toLocaleString()} km</p>
+          </div>
+        </div>
+      )}
+
       {/* Map visualization - shows all flights regardless of filter */}
-      <div className="h-[450px] w-full rounded-lg overflow-hidden border border-gray-700 mb-6 relative bg-gray-800">
-        <MapContainer center={nepalCenter} zoom={7} scrollWheelZoom={true} style={{ height: '100%', width: '100%' }}>
+      <div className="h-[450px] w-full rounded-lg overflow-hidden border border-gray-700 mb-2 relative bg-gray-800">
+        <MapContainer
+          center={urlState.view ? [urlState.view.lat, urlState.view.lng] : initialRegion.center}
+          zoom={urlState.view?.zoom ?? initialRegion.zoom}
+          scrollWheelZoom={true}
+          style={{ height: '100%', width: '100%' }}
+        >
           <TileLayer
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
             url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
           />
-          <MapController flights={flights} centerTarget={centerTarget} />
-          {flights.map(flight => (
-            flight.latitude && flight.longitude && (
-              <Marker
-                key={flight.icao24}
-                position={[flight.latitude, flight.longitude]}
-                icon={createFlightIcon(flight.true_track)}
-              >
-                <Popup>
-                    <div className="text-sm -m-1">
-                      <p className="font-bold font-mono m-0 p-0">{flight.callsign}</p>
-                      <hr className="my-1 border-gray-500" />
-                      <p className="m-0 p-0"><strong>Origin:</strong> {flight.origin_country}</p>
-                      <p className="m-0 p-0"><strong>Speed:</strong> {formatSpeed(flight.velocity)}</p>
-                      <p className="m-0 p-0"><strong>Altitude:</strong> {formatAltitude(flight.baro_altitude)}</p>
-                      <button 
-                        onClick={() => setCenterTarget([flight.latitude!, flight.longitude!])}
-                        className="w-full text-center text-white bg-blue-600 rounded-md mt-2 px-2 py-1 text-xs hover:bg-blue-700 transition"
-                      >
-                        Center on Flight
-                      </button>
-                    </div>
-                </Popup>
-              </Marker>
-            )
-          ))}
+          <MapController flights={displayedFlights} centerTarget={centerTarget} region={region} autoFit={region !== null && !showHistory} fitRequest={fitRequest} keepInitialView={urlState.view !== null} />
+          <MapViewWatcher onViewChange={setMapView} />
+          {regionId === VIEWPORT_REGION && <ViewportWatcher onBoundsChange={setViewportBounds} />}
+          <GeofenceLayer fences={fences} drawMode={drawMode} draftPoints={draftPoints} onMapClick={handleDrawClick} />
+          {highlightRoute && <RouteLines legs={routeLegs} showLabels={false} />}
+          {trailMinutes !== null && !showHistory && <FlightTrails trails={trails} trailMinutes={trailMinutes} />}
+          {effectiveRenderMode === 'canvas' ? (
+            <FlightCanvasLayer flights={displayedFlights} highlightedIds={routeFollowerIds} onSelect={(flight) => setSelectedFlightId(flight.icao24)} />
+          ) : (
+            <FlightMarkers
+              flights={displayedFlights}
+              clustered={effectiveRenderMode === 'clustered'}
+              highlightedIds={routeFollowerIds}
+              onSelect={(flight) => setSelectedFlightId(flight.icao24)}
+            />
+          )}
+          {selectedFlight && (
+            <Popup
+              position={[selectedFlight.latitude!, selectedFlight.longitude!]}
+              eventHandlers={{ remove: () => setSelectedFlightId(null) }}
+            >
+              {renderFlightPopup(selectedFlight)}
+            </Popup>
+          )}
         </MapContainer>
       </div>
 
+      {/* Timeline for replaying recorded traffic */}
+      {showHistory && (
+        <HistoryTimeline
+          sourceId={source.id}
+          onFlightsChange={(historic, time) => {
+            setHistoryFlights(historic);
+            setHistoryTime(time);
+          }}
+        />
+      )}
+
+      {/* Map, trail and history settings */}
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          〰️ Trails
+          <select
+            value={trailMinutes === null ? 'off' : String(trailMinutes)}
+            onChange={(e) => setTrailMinutes(e.target.value === 'off' ? null : Number(e.target.value))}
+            className="p-1 bg-gray-800 border border-gray-600 rounded-lg text-white"
+          >
+            {TRAIL_LENGTH_OPTIONS.map(option => (
+              <option key={option.label} value={option.minutes === null ? 'off' : option.minutes}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          🗺️ Draw as
+          <select
+            value={renderMode}
+            onChange={(e) => setRenderMode(e.target.value as MapRenderMode)}
+            className="p-1 bg-gray-800 border border-gray-600 rounded-lg text-white"
+          >
+            {MAP_RENDER_MODES.map(mode => (
+              <option key={mode.id} value={mode.id}>{mode.label}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => setFitRequest(count => count + 1)}
+          disabled={displayedFlights.length === 0}
+          className="text-blue-400 hover:underline disabled:text-gray-500"
+        >
+          Fit to aircraft
+        </button>
+        {routeLegs.length > 0 && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={highlightRoute} onChange={(e) => setHighlightRoute(e.target.checked)} className="accent-green-500" />
+            🧭 Highlight aircraft on my route{highlightRoute && ` (${routeFollowerIds.size})`}
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showHistory} onChange={(e) => setShowHistory(e.target.checked)} className="accent-blue-500" />
+          🕘 Show history
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={recordHistory} onChange={(e) => setRecordHistory(e.target.checked)} className="accent-blue-500" />
+          Record history in this browser
+        </label>
+        {trailMinutes !== null && <AltitudeLegend />}
+      </div>
+
+      {/* Watchlists and geofences that raise alerts */}
+      <AlertSettings
+        watchlists={watchlists}
+        onWatchlistsChange={setWatchlists}
+        fences={fences}
+        onFencesChange={setFences}
+        drawMode={drawMode}
+        draftPointCount={draftPoints.length}
+        onStartDrawing={(mode) => { setDrawMode(mode); setDraftPoints([]); }}
+        onFinishDrawing={() => addFence({ kind: 'polygon', points: draftPoints })}
+        onCancelDrawing={() => { setDrawMode(null); setDraftPoints([]); }}
+      />
+
+      {/* Takeoffs and landings at the airports we watch */}
+      {!showHistory && <AirportBoard events={airportEvents} />}
+
+      {/* Save the table (as filtered) with the time its positions are from */}
+      <div className="mb-2">
+        <ExportButtons
+          disabled={processedFlights.length === 0}
+          exports={[
+            { label: 'CSV', onExport: () => exportFlights('csv') },
+            { label: 'GeoJSON', onExport: () => exportFlights('geojson') },
+          ]}
+        />
+      </div>
+
       {/* Filter Input */}
       <div className="mb-4">
         <input
@@ -214,9 +808,9 @@ export default function LiveFlightsDisplay(): React.ReactElement {
       </div>
 
       <div className="overflow-x-auto">
-        {isLoading && flights.length === 0 ? (
+        {isLoading && displayedFlights.length === 0 && !showHistory ? (
           <p className="text-center text-gray-400 py-4">Fetching live flight data...</p>
-        ) : flights.length > 0 ? (
+        ) : displayedFlights.length > 0 ? (
           <table className="w-full text-left table-auto">
             <thead className="bg-gray-800 text-gray-300 text-sm">
               <tr>
@@ -232,16 +826,26 @@ export default function LiveFlightsDisplay(): React.ReactElement {
                 <th className="p-3 font-semibold cursor-pointer select-none" onClick={() => requestSort('baro_altitude')}>
                   Altitude{getSortIndicator('baro_altitude')}
                 </th>
+                <th className="p-3 font-semibold">Est. CO₂</th>
+                <th className="p-3 font-semibold">Tracked</th>
                 <th className="p-3 font-semibold">Coordinates</th>
               </tr>
             </thead>
             <tbody>
               {processedFlights.map((flight) => (
-                <tr key={flight.icao24} className="border-b border-gray-700 hover:bg-gray-800">
-                  <td className="p-3 font-mono">{flight.callsign}</td>
+                <tr key={flight.icao24} className={`border-b border-gray-700 hover:bg-gray-800 ${watchedIds.has(flight.icao24) ? 'bg-amber-900/20' : ''}`}>
+                  <td className="p-3 font-mono">
+                    {watchedIds.has(flight.icao24) && <span title="On a watchlist">👁️ </span>}
+                    {routeFollowerIds.has(flight.icao24) && <span title="Flying along your route">🧭 </span>}
+                    {flight.callsign}
+                  </td>
                   <td className="p-3">{flight.origin_country}</td>
                   <td className="p-3">{formatSpeed(flight.velocity)}</td>
                   <td className="p-3">{formatAltitude(flight.baro_altitude)}</td>
+                  <td className="p-3 whitespace-nowrap">
+                    <BurnCell estimate={burnEstimates.get(flight.icao24)!} />
+                  </td>
+                  <td className="p-3 whitespace-nowrap">{Math.round(trails.get(flight.icao24)?.distanceFlown ?? 0)} km</td>
                   <td className="p-3 text-xs font-mono">
                     {flight.latitude?.toFixed(4)}, {flight.longitude?.toFixed(4)}
                   </td>
@@ -250,9 +854,11 @@ export default function LiveFlightsDisplay(): React.ReactElement {
             </tbody>
           </table>
         ) : (
-          <p className="text-center text-gray-400 py-4">No live flights detected in the region currently.</p>
+          <p className="text-center text-gray-400 py-4">
+            {showHistory ? 'No aircraft were recorded at this moment.' : fetchResult?.status === 'empty' ? 'No live flights detected in the region currently.' : 'Live flight data is unavailable right now.'}
+          </p>
         )}
-        {flights.length > 0 && processedFlights.length === 0 && (
+        {displayedFlights.length > 0 && processedFlights.length === 0 && (
           <p className="text-center text-gray-400 py-4">No flights match your filter criteria.</p>
         )}
       </div>
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Methodology } from '../types';
+
+// Define the properties this component expects to receive.
+interface MethodologyListProps {
+  methodology: Methodology;
+}
+
+// Lists the assumptions and data behind a set of figures, for printed reports.
+export default function MethodologyList({ methodology }: MethodologyListProps): React.ReactElement {
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 text-sm">
+      <h4 className="font-bold text-gray-100 mb-2">📐 {methodology.title}</h4>
+      <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1">
+        <dt className="text-gray-400">Data timestamp</dt>
+        <dd className="text-gray-200">{new Date(methodology.dataTimestamp).toLocaleString()}</dd>
+        {methodology.items.map(item => (
+          <React.Fragment key={item.label}>
+            <dt className="text-gray-400">{item.label}</dt>
+            <dd className="text-gray-200">{item.value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { FlightLeg, ModeEstimate } from '../types';
+import { compareTravelModes, DEFAULT_CAR_OCCUPANCY } from '../utils/modeComparison';
+
+// Define the properties this component expects to receive.
+interface ModeComparisonProps {
+  legs: FlightLeg[];
+}
+
+// Formats a duration in hours as e.g. "3 h 20 min".
+const formatDuration = (hours: number): string => {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return h > 0 ? `${h} h ${m} min` : `${m} min`;
+};
+
+// Describes how a mode compares with flying, e.g. "−85% CO₂".
+const formatVersusFlight = (estimate: ModeEstimate, flight: ModeEstimate): string => {
+  if (estimate.mode === 'flight') return '—';
+  const change = ((estimate.co2 - flight.co2) / flight.co2) * 100;
+  return `${change <= 0 ? '−' : '+'}${Math.abs(change).toFixed(0)}% CO₂`;
+};
+
+// Compares each flight leg with making the same journey by train, coach or car.
+export default function ModeComparison({ legs }: ModeComparisonProps): React.ReactElement {
+  // State for how many people share the car, which divides the car's emissions between them
+  const [carOccupancy, setCarOccupancy] = useState<number>(DEFAULT_CAR_OCCUPANCY);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 text-sm space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h4 className="font-bold text-lg text-gray-100">🚆 Could you go another way?</h4>
+        <label className="flex items-center gap-2 text-gray-300">
+          🚗 People in the car
+          <select
+            value={carOccupancy}
+            onChange={(e) => setCarOccupancy(Number(e.target.value))}
+            className="p-2 bg-gray-900 border border-gray-600 rounded-lg text-white"
+          >
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {legs.map(leg => {
+        const estimates = compareTravelModes(leg, carOccupancy);
+        const flight = estimates[0];
+        const lowest = Math.min(...estimates.filter(e => e.available).map(e => e.co2));
+
+        return (
+          <div key={`${leg.from.iata}-${leg.to.iata}`} className="overflow-x-auto">
+            <p className="font-mono font-bold text-gray-200 mb-1">{leg.from.iata} → {leg.to.iata}</p>
+            <table className="w-full text-left">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="py-1 pr-3 font-semibold">Mode</th>
+                  <th className="py-1 pr-3 font-semibold">Distance</th>
+                  <th className="py-1 pr-3 font-semibold">Time</th>
+                  <th className="py-1 pr-3 font-semibold text-right">kg CO₂ / passenger</th>
+                  <th className="py-1 pr-3 font-semibold text-right">vs flight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimates.map(estimate => (
+                  <tr key={estimate.mode} className={`border-t border-gray-700 ${estimate.available ? '' : 'text-gray-500'}`}>
+                    <td className="py-1 pr-3">{estimate.icon} {estimate.label}</td>
+                    {estimate.available ? (
+                      <>
+                        <td className="py-1 pr-3">{Math.round(estimate.distance).toLocaleString()} km</td>
+                        <td className="py-1 pr-3">~{formatDuration(estimate.travelTimeHours)}</td>
+                        <td className={`py-1 pr-3 text-right font-mono ${estimate.co2 === lowest ? 'text-green-400 font-bold' : ''}`}>
+                          {estimate.co2.toFixed(1)}
+                        </td>
+                        <td className="py-1 pr-3 text-right">{formatVersusFlight(estimate, flight)}</td>
+                      </>
+                    ) : (
+                      <td colSpan={4} className="py-1 pr-3 italic">Unavailable: {estimate.unavailableReason}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-gray-500">
+        Surface distances assume roads and railways are 25–35% longer than the straight-line distance. Times are rough averages including stops.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { OffsetCatalogue, OffsetPricing } from '../types';
+import { estimateOffsetCosts, formatCostRange, formatMoney, getPricingCurrency, readOffsetCatalogueFile } from '../utils/offsets';
+
+// Define the properties this component expects to receive.
+interface OffsetCostsProps {
+  emissionsKg: number; // kg CO₂ to offset, for all passengers
+  passengers: number;
+  pricing: OffsetPricing;
+  isCustomCatalogue: boolean; // the user loaded their own catalogue instead of the bundled one
+  onCatalogueChange: (catalogue: OffsetCatalogue | null) => void; // null goes back to the bundled catalogue
+}
+
+// Shows what offsetting a trip would cost with each kind of offset project, and lets the user load their own prices.
+export default function OffsetCosts({ emissionsKg, passengers, pricing, isCustomCatalogue, onCatalogueChange }: OffsetCostsProps): React.ReactElement {
+  const [error, setError] = useState<string>('');
+
+  const currency = getPricingCurrency(pricing).code;
+  const estimates = estimateOffsetCosts(emissionsKg, pricing);
+  const tonnes = emissionsKg / 1000;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      onCatalogueChange(await readOffsetCatalogueFile(file));
+    } catch (e) {
+      console.error('Error reading offset catalogue:', e);
+      setError(e instanceof Error ? e.message : 'Could not read the catalogue.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 text-sm space-y-3">
+      <div className="flex flex-wrap justify-between items-baseline gap-2">
+        <h4 className="font-bold text-lg text-gray-100">🌱 What would offsetting cost?</h4>
+        <p className="text-gray-400">
+          {tonnes.toFixed(2)} t CO₂{passengers > 1 && ` for ${passengers} passengers`}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-gray-400">
+            <tr>
+              <th className="py-1 pr-3 font-semibold">Project type</th>
+              <th className="py-1 pr-3 font-semibold text-right">Price per tonne</th>
+              <th className="py-1 font-semibold text-right">Cost for this trip</th>
+            </tr>
+          </thead>
+          <tbody>
+            {estimates.map(estimate => (
+              <tr key={estimate.project.id} className="border-t border-gray-700 align-top">
+                <td className="py-2 pr-3">
+                  <span className="text-gray-200">{estimate.project.icon} {estimate.project.name}</span>
+                  {estimate.project.description && <span className="block text-xs text-gray-400">{estimate.project.description}</span>}
+                </td>
+                <td className="py-2 pr-3 text-right font-mono whitespace-nowrap">
+                  {formatCostRange(estimate.minPricePerTonne, estimate.maxPricePerTonne, currency)}
+                </td>
+                <td className="py-2 text-right font-mono font-bold text-green-400 whitespace-nowrap">
+                  {formatCostRange(estimate.minCost, estimate.maxCost, currency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        Prices from "{pricing.catalogue.name}"{pricing.catalogue.updated && `, checked ${pricing.catalogue.updated}`}
+        {currency !== pricing.catalogue.baseCurrency && `, converted from ${pricing.catalogue.baseCurrency} at ${formatMoney(getPricingCurrency(pricing).rate, currency)} per ${pricing.catalogue.baseCurrency}`}.
+        Offsetting doesn't undo a flight's emissions; flying less always helps more.
+      </p>
+
+      {/* Load a different price catalogue */}
+      <div className="print-hidden flex flex-wrap items-center gap-3">
+        <label className="text-blue-400 hover:underline cursor-pointer">
+          Load a price catalogue (.json)
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = ''; // so picking the same file again reloads it
+            }}
+          />
+        </label>
+        {isCustomCatalogue && (
+          <button onClick={() => onCatalogueChange(null)} className="text-blue-400 hover:underline">
+            Use the bundled prices
+          </button>
+        )}
+        {error && <span className="text-red-500">{error}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { PlaybackControls } from '../types';
+
+// Define the properties this component expects to receive.
+interface ReplayControlsProps {
+  playback: PlaybackControls;
+  onChange: () => void; // called after play, pause or a speed change, so the tracker can refresh straight away
+}
+
+// The playback speeds the user can choose from.
+const SPEED_OPTIONS = [1, 2, 5, 10, 30];
+
+// Formats a recording timestamp as a time of day in UTC, since recordings can come from any time zone.
+const formatRecordingTime = (time: number): string =>
+  new Date(time).toLocaleTimeString([], { timeZone: 'UTC', hour: '2-digit', minute: '2-digit', second: '2-digit' }) + ' UTC';
+
+// Play/pause and speed controls for a recorded replay, with how far through the recording we are.
+export default function ReplayControls({ playback, onChange }: ReplayControlsProps): React.ReactElement {
+  const [state, setState] = useState(playback.getState());
+
+  // The playback clock runs outside React, so re-read it every second to keep the progress bar moving.
+  useEffect(() => {
+    setState(playback.getState());
+    const timer = setInterval(() => setState(playback.getState()), 1000);
+    return () => clearInterval(timer);
+  }, [playback]);
+
+  if (!state) {
+    return <p className="mb-4 text-sm text-gray-400">Loading recording...</p>;
+  }
+
+  const progress = (state.currentTime - state.startTime) / Math.max(state.endTime - state.startTime, 1);
+
+  const togglePlaying = () => {
+    if (state.isPlaying) playback.pause();
+    else playback.play();
+    setState(playback.getState());
+    onChange();
+  };
+
+  const changeSpeed = (speed: number) => {
+    playback.setSpeed(speed);
+    setState(playback.getState());
+    onChange();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4 p-3 rounded-lg border border-gray-700 bg-gray-800 text-sm text-gray-300">
+      <button
+        onClick={togglePlaying}
+        className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 transition"
+      >
+        {state.isPlaying ? '⏸ Pause' : '▶️ Play'}
+      </button>
+      <label className="flex items-center gap-2">
+        Speed
+        <select
+          value={state.speed}
+          onChange={(e) => changeSpeed(Number(e.target.value))}
+          className="p-1 bg-gray-900 border border-gray-600 rounded-lg text-white"
+        >
+          {SPEED_OPTIONS.map(speed => (
+            <option key={speed} value={speed}>{speed}×</option>
+          ))}
+        </select>
+      </label>
+      <div className="flex-1 min-w-[120px] h-2 bg-gray-700 rounded-full overflow-hidden" aria-hidden="true">
+        <div className="h-full bg-blue-500" style={{ width: `${Math.round(progress * 100)}%` }} />
+      </div>
+      <span className="font-mono text-xs">
+        {formatRecordingTime(state.currentTime)} / {formatRecordingTime(state.endTime)}
+      </span>
+    </div>
+  );
+}
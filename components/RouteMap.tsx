@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo } from 'react';
+import { CircleMarker, MapContainer, Polyline, TileLayer, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Airport, FlightLeg } from '../types';
+import { greatCirclePoints, splitAtAntimeridian, unwrapLongitudes } from '../utils/geodesic';
+
+// Define the properties this component expects to receive.
+interface RouteMapProps {
+  legs: FlightLeg[];
+}
+
+const ROUTE_COLOR = '#22c55e';
+
+// The great-circle arc of one leg, split where it crosses the 180° meridian.
+const getLegPieces = (leg: FlightLeg): [number, number][][] =>
+  splitAtAntimeridian(greatCirclePoints([leg.from.latitude, leg.from.longitude], [leg.to.latitude, leg.to.longitude]));
+
+// The great-circle arc of every leg as one unbroken line, with longitudes unwrapped from the first airport,
+// so a route across the Pacific stays in one piece. Returns the points of each leg.
+const getContinuousLegPoints = (legs: FlightLeg[]): [number, number][][] => {
+  const legPoints = legs.map(leg => greatCirclePoints([leg.from.latitude, leg.from.longitude], [leg.to.latitude, leg.to.longitude]));
+  const unwrapped = unwrapLongitudes(legPoints.flat());
+  let start = 0;
+  return legPoints.map(points => {
+    start += points.length;
+    return unwrapped.slice(start - points.length, start);
+  });
+};
+
+// Every airport on the route, once each, in the order they are visited, with the position to draw its pin at.
+// With continuous leg points, each pin goes on the end of its line rather than at the airport's own longitude.
+const getRouteAirports = (legs: FlightLeg[], legPoints?: [number, number][][]): { airport: Airport; position: [number, number] }[] => {
+  const airports = new Map<string, { airport: Airport; position: [number, number] }>();
+  const add = (airport: Airport, position: [number, number] | undefined) => {
+    if (!airports.has(airport.iata)) airports.set(airport.iata, { airport, position: position ?? [airport.latitude, airport.longitude] });
+  };
+  legs.forEach((leg, i) => {
+    const points = legPoints?.[i];
+    add(leg.from, points?.[0]);
+    add(leg.to, points?.[points.length - 1]);
+  });
+  return [...airports.values()];
+};
+
+/**
+ * Draws a route's legs as great-circle arcs with a pin on each airport. Must be placed inside a MapContainer,
+ * so it can be used on its own map or on top of another one.
+ * On its own map the route is drawn as one continuous line (`continuous`), which may run past ±180 so it can be
+ * zoomed to as a whole. On top of live traffic, which is plotted at real longitudes, it is split at the 180° meridian instead.
+ */
+export const RouteLines: React.FC<{ legs: FlightLeg[]; showLabels?: boolean; continuous?: boolean }> = ({ legs, showLabels = true, continuous = false }) => {
+  const continuousPoints = useMemo(() => (continuous ? getContinuousLegPoints(legs) : undefined), [legs, continuous]);
+  const pieces = useMemo(() => continuousPoints?.map(points => [points]) ?? legs.map(getLegPieces), [legs, continuousPoints]);
+
+  return (
+    <>
+      {legs.map((leg, legIndex) => {
+        // The distance and CO₂ label goes on the longest piece, so it sits roughly mid-leg.
+        const labelled = pieces[legIndex].reduce((longest, piece) => (piece.length > longest.length ? piece : longest));
+        return pieces[legIndex].map((piece, pieceIndex) => (
+          <Polyline key={`${legIndex}-${pieceIndex}`} positions={piece} pathOptions={{ color: ROUTE_COLOR, weight: 3, opacity: 0.8 }}>
+            {showLabels && piece === labelled && (
+              <Tooltip permanent direction="center">
+                {leg.from.iata}→{leg.to.iata}: {Math.round(leg.distance).toLocaleString()} km · {leg.emissions.total.toFixed(0)} kg CO₂
+              </Tooltip>
+            )}
+          </Polyline>
+        ));
+      })}
+      {getRouteAirports(legs, continuousPoints).map(({ airport, position }) => (
+        <CircleMarker
+          key={airport.iata}
+          center={position}
+          radius={6}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: ROUTE_COLOR, fillOpacity: 1 }}
+        >
+          <Tooltip permanent={showLabels} direction="top" offset={[0, -6]}>
+            <strong>{airport.iata}</strong> {airport.city}
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+};
+
+// Zooms the map to show the whole route whenever it changes. The longitudes are unwrapped, as the route is drawn,
+// so a route across the Pacific is fitted over the ocean rather than across the whole world.
+const FitToRoute = ({ legs }: { legs: FlightLeg[] }) => {
+  const map = useMap();
+  useEffect(() => {
+    const points = getContinuousLegPoints(legs).flat();
+    if (points.length > 0) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40] });
+    }
+  }, [legs, map]);
+  return null;
+};
+
+// A map of the trip entered in the calculator, with each leg drawn along its great circle.
+export default function RouteMap({ legs }: RouteMapProps): React.ReactElement {
+  if (legs.length === 0) return null;
+
+  return (
+    <div className="h-[320px] w-full rounded-lg overflow-hidden border border-gray-700 bg-gray-800">
+      <MapContainer center={[legs[0].from.latitude, legs[0].from.longitude]} zoom={3} style={{ height: '100%', width: '100%' }}>
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+          url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+        />
+        <RouteLines legs={legs} continuous />
+        <FitToRoute legs={legs} />
+      </MapContainer>
+    </div>
+  );
+}
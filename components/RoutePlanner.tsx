@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { Airport, EmissionOptions, PlannedRoute } from '../types';
+import { AirportGraph, DEFAULT_ROUTE_PLANNER_OPTIONS, findLowestEmissionRoutes } from '../utils/routePlanner';
+
+// Define the properties this component expects to receive.
+interface RoutePlannerProps {
+  graph: AirportGraph;
+  fromAirport: Airport;
+  toAirport: Airport;
+  emissionOptions: EmissionOptions;
+  onUseRoute: (stops: Airport[]) => void;
+}
+
+// Formats the difference between a route and the direct flight, e.g. "+12.3 kg (+4%)".
+const formatExtraEmissions = (route: PlannedRoute): string => {
+  const sign = route.extraEmissions >= 0 ? '+' : '−';
+  return `${sign}${Math.abs(route.extraEmissions).toFixed(1)} kg (${sign}${Math.abs(route.extraEmissionsPercent).toFixed(0)}%)`;
+};
+
+// Compares the direct flight with connecting routes through the airport network, ranked by CO2.
+export default function RoutePlanner({
+  graph,
+  fromAirport,
+  toAirport,
+  emissionOptions,
+  onUseRoute,
+}: RoutePlannerProps): React.ReactElement {
+  // State for the search limits
+  const [maxStops, setMaxStops] = useState<number>(DEFAULT_ROUTE_PLANNER_OPTIONS.maxStops);
+  const [maxDetourRatio, setMaxDetourRatio] = useState<number>(DEFAULT_ROUTE_PLANNER_OPTIONS.maxDetourRatio);
+  const [limit, setLimit] = useState<number>(DEFAULT_ROUTE_PLANNER_OPTIONS.limit);
+
+  // Re-run the search only when the route or one of its limits changes.
+  const { direct, routes } = useMemo(
+    () => findLowestEmissionRoutes(graph, fromAirport, toAirport, { maxStops, maxDetourRatio, limit, emissionOptions }),
+    [graph, fromAirport, toAirport, maxStops, maxDetourRatio, limit, emissionOptions]
+  );
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 text-sm space-y-4">
+      <div>
+        <h4 className="font-bold text-lg text-gray-100">🧭 Lowest-emission connections</h4>
+        <p className="text-gray-400">
+          {fromAirport.iata} → {toAirport.iata} direct great-circle route: {Math.round(direct.distance).toLocaleString()} km,{' '}
+          {direct.emissions.total.toFixed(1)} kg CO₂ per passenger
+        </p>
+      </div>
+
+      {/* Search limits */}
+      <div className="flex flex-wrap items-center gap-4 text-gray-300">
+        <label className="flex items-center gap-2">
+          Max stops
+          <select
+            value={maxStops}
+            onChange={(e) => setMaxStops(Number(e.target.value))}
+            className="p-2 bg-gray-900 border border-gray-600 rounded-lg text-white"
+          >
+            {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Max detour
+          <input
+            type="range"
+            min={1}
+            max={2.5}
+            step={0.05}
+            value={maxDetourRatio}
+            onChange={(e) => setMaxDetourRatio(Number(e.target.value))}
+            className="accent-green-600"
+          />
+          <span className="font-mono w-12">+{Math.round((maxDetourRatio - 1) * 100)}%</span>
+        </label>
+        <label className="flex items-center gap-2">
+          Show top
+          <select
+            value={limit}
+            onChange={(e) => setLimit(Number(e.target.value))}
+            className="p-2 bg-gray-900 border border-gray-600 rounded-lg text-white"
+          >
+            {[3, 5, 10].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {/* Ranked routes */}
+      {routes.length === 0 ? (
+        <p className="text-gray-400">No routes found within these limits. Try allowing more stops or a larger detour.</p>
+      ) : (
+        <ol className="space-y-3">
+          {routes.map((route, index) => (
+            <li key={route.stops.map(s => s.iata).join('-')} className="bg-gray-900 p-3 rounded-lg border border-gray-700">
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <p className="font-mono font-bold text-gray-100">
+                  #{index + 1} {route.stops.map(s => s.iata).join(' → ')}
+                </p>
+                <p className="text-green-500 font-bold">{route.emissionsPerPassenger.toFixed(1)} kg CO₂</p>
+              </div>
+              <p className="text-gray-400">
+                {Math.round(route.totalDistance).toLocaleString()} km · detour +{Math.round((route.detourRatio - 1) * 100)}% ·{' '}
+                vs direct: <span className={route.extraEmissions > 0 ? 'text-orange-400' : 'text-green-400'}>{formatExtraEmissions(route)}</span>
+              </p>
+              <ul className="mt-2 space-y-1 text-gray-300">
+                {route.legs.map(leg => (
+                  <li key={`${leg.from.iata}-${leg.to.iata}`} className="flex justify-between gap-4">
+                    <span className="font-mono">{leg.from.iata} → {leg.to.iata}</span>
+                    <span>{Math.round(leg.distance).toLocaleString()} km · {leg.emissions.total.toFixed(1)} kg</span>
+                  </li>
+                ))}
+              </ul>
+              <button onClick={() => onUseRoute(route.stops)} className="mt-2 text-blue-400 hover:underline">
+                Use this route
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { CabinClass, CarbonBudgets, OffsetPricing, TripLogEntry, TripPurpose, TripResult } from '../types';
+import { CABIN_CLASSES, TRIP_PURPOSES } from '../constants';
+import { AirportIndex } from '../utils/airportSearch';
+import { getOutboundLegs } from '../utils/itinerary';
+import { formatCostRange, getOffsetCostRange, getPricingCurrency } from '../utils/offsets';
+import { createTripLogEntry, findOverBudgetTrips, recalculateTripLogEntry, summarizeTripYear, toDateString } from '../utils/tripLog';
+import CarbonBudget from './CarbonBudget';
+
+// Define the properties this component expects to receive.
+interface TripLogProps {
+  entries: TripLogEntry[];
+  onEntriesChange: (entries: TripLogEntry[]) => void;
+  budgets: CarbonBudgets;
+  onBudgetsChange: (budgets: CarbonBudgets) => void;
+  trip: TripResult | null; // the trip on the calculator, which can be added to the log
+  airportIndex: AirportIndex; // used to recalculate entries after editing
+  offsetPricing: OffsetPricing; // used to put a price on offsetting the year's trips
+}
+
+// A short description of an entry's route, e.g. "KTM → DEL ⇄".
+const describeRoute = (entry: TripLogEntry): string => `${entry.stops.join(' → ')}${entry.roundTrip ? ' ⇄' : ''}`;
+
+const purposeInfo = (purpose: TripPurpose) => TRIP_PURPOSES.find(p => p.purpose === purpose) ?? TRIP_PURPOSES[TRIP_PURPOSES.length - 1];
+const cabinLabel = (cabinClass: CabinClass) => CABIN_CLASSES.find(c => c.cabinClass === cabinClass)?.label ?? cabinClass;
+
+const inputClass = 'p-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-green-500';
+
+// The personal trip log: trips saved from the calculator, with a yearly carbon budget to track them against.
+export default function TripLog({ entries, onEntriesChange, budgets, onBudgetsChange, trip, airportIndex, offsetPricing }: TripLogProps): React.ReactElement {
+  const today = toDateString();
+  const [year, setYear] = useState<number>(Number(today.slice(0, 4)));
+
+  // State for the "log this trip" form fields
+  const [date, setDate] = useState<string>(today);
+  const [purpose, setPurpose] = useState<TripPurpose>('business');
+  const [notes, setNotes] = useState<string>('');
+
+  // The entry being edited, with the user's changes so far
+  const [editing, setEditing] = useState<TripLogEntry | null>(null);
+
+  // The calculator's trip that was last added to the log, and the entry it became.
+  const [loggedTrip, setLoggedTrip] = useState<{ trip: TripResult; entryId: string } | null>(null);
+  // Once the calculator's trip is in the log it is counted there, so it isn't shown again as a trip about to be logged.
+  // Deleting the entry, or calculating another trip, makes it pending again.
+  const isTripLogged = trip !== null && loggedTrip?.trip === trip && entries.some(entry => entry.id === loggedTrip.entryId);
+  const pendingTrip = isTripLogged ? null : trip;
+
+  // Every year with a logged trip, plus the current one, newest first.
+  const years = useMemo(() => {
+    const all = new Set([Number(today.slice(0, 4)), ...entries.map(entry => Number(entry.date.slice(0, 4)))]);
+    return [...all].sort((a, b) => b - a);
+  }, [entries, today]);
+
+  const summary = useMemo(() => summarizeTripYear(entries, year, today), [entries, year, today]);
+  const offsetCost = getOffsetCostRange(summary.total, offsetPricing);
+  const overBudget = useMemo(() => findOverBudgetTrips(entries, budgets, today), [entries, budgets, today]);
+  const yearEntries = entries
+    .filter(entry => entry.date.startsWith(`${year}-`))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  // Whether logging the calculator's trip on the chosen date would take that year over its budget.
+  const newTripYear = date.slice(0, 4);
+  const newTripBudget = budgets[newTripYear];
+  const newTripYearTotal = pendingTrip ? summarizeTripYear(entries, Number(newTripYear), today).total + pendingTrip.totalEmissions : 0;
+  const newTripOverBudget = pendingTrip !== null && newTripBudget !== undefined && newTripYearTotal > newTripBudget;
+
+  // The calculator's trip as airport codes, e.g. "KTM → DEL".
+  const tripRoute = trip
+    ? [getOutboundLegs(trip)[0].from, ...getOutboundLegs(trip).map(leg => leg.to)].map(airport => airport.iata).join(' → ')
+    : '';
+
+  const addTrip = () => {
+    if (!trip || !date) return;
+    const entry = createTripLogEntry(trip, date, purpose, notes.trim());
+    onEntriesChange([...entries, entry]);
+    setLoggedTrip({ trip, entryId: entry.id });
+    setNotes('');
+    setYear(Number(newTripYear));
+  };
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const updated = recalculateTripLogEntry({ ...editing, passengers: Math.max(1, Math.round(editing.passengers)) }, airportIndex);
+    onEntriesChange(entries.map(entry => (entry.id === updated.id ? updated : entry)));
+    setEditing(null);
+  };
+
+  const deleteEntry = (entry: TripLogEntry) => {
+    if (!window.confirm(`Delete the ${describeRoute(entry)} trip on ${entry.date}?`)) return;
+    onEntriesChange(entries.filter(e => e.id !== entry.id));
+  };
+
+  const setBudget = (kg: number | null) => {
+    const others = Object.fromEntries(Object.entries(budgets).filter(([y]) => y !== String(year)));
+    onBudgetsChange(kg === null ? others : { ...others, [String(year)]: kg });
+  };
+
+  return (
+    <div className="bg-gray-900 p-6 rounded-xl shadow-md border border-gray-700 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-2xl font-bold text-gray-100">📒 Trip Log & Carbon Budget</h2>
+        <select value={year} onChange={(e) => setYear(Number(e.target.value))} className={inputClass} aria-label="Year">
+          {years.map(y => <option key={y} value={y}>{y}</option>)}
+        </select>
+      </div>
+
+      <CarbonBudget
+        year={year}
+        budget={budgets[String(year)]}
+        summary={summary}
+        pendingKg={pendingTrip && newTripYear === String(year) ? pendingTrip.totalEmissions : 0}
+        onBudgetChange={setBudget}
+      />
+
+      {summary.total > 0 && (
+        <p className="text-sm text-gray-400">
+          🌱 Offsetting {year}'s {Math.round(summary.total)} kg CO₂ would cost about{' '}
+          <span className="text-green-400 font-mono">{formatCostRange(offsetCost.min, offsetCost.max, getPricingCurrency(offsetPricing).code)}</span>,
+          depending on the kind of project.
+        </p>
+      )}
+
+      {/* Log the trip that's on the calculator */}
+      {trip && (
+        <form
+          className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addTrip();
+          }}
+        >
+          <p className="text-gray-300">
+            Log the calculated trip:{' '}
+            <span className="font-mono">{tripRoute}{trip.roundTrip ? ' ⇄' : ''}</span>,{' '}
+            {trip.totalEmissions.toFixed(1)} kg CO₂
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} required className={inputClass} aria-label="Trip date" />
+            <select value={purpose} onChange={(e) => setPurpose(e.target.value as TripPurpose)} className={inputClass} aria-label="Purpose">
+              {TRIP_PURPOSES.map(p => <option key={p.purpose} value={p.purpose}>{p.icon} {p.label}</option>)}
+            </select>
+            <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes (optional)" className={`${inputClass} flex-1 min-w-[10rem]`} />
+            <button type="submit" className="bg-green-600 text-white font-bold px-4 py-2 rounded-lg hover:bg-green-700 transition">
+              Add to log
+            </button>
+          </div>
+          {isTripLogged && <p className="text-green-400 text-sm">✓ Added to your log.</p>}
+          {newTripOverBudget && (
+            <p className="text-amber-400 text-sm">
+              ⚠️ This trip would take {newTripYear} to {Math.round(newTripYearTotal)} kg CO₂,{' '}
+              {Math.round(newTripYearTotal - newTripBudget)} kg over your {Math.round(newTripBudget)} kg budget.
+            </p>
+          )}
+        </form>
+      )}
+
+      {/* The year's trips */}
+      {yearEntries.length === 0 ? (
+        <p className="text-gray-500 text-center">No trips logged for {year} yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-gray-400 border-b border-gray-700">
+              <tr>
+                <th className="py-2 pr-3 font-semibold">Date</th>
+                <th className="py-2 pr-3 font-semibold">Route</th>
+                <th className="py-2 pr-3 font-semibold">Purpose</th>
+                <th className="py-2 pr-3 font-semibold">Cabin</th>
+                <th className="py-2 pr-3 font-semibold text-right">Passengers</th>
+                <th className="py-2 pr-3 font-semibold text-right">kg CO₂</th>
+                <th className="py-2 font-semibold"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {yearEntries.map(entry => editing?.id === entry.id ? (
+                <tr key={entry.id} className="border-b border-gray-800 bg-gray-800">
+                  <td className="py-2 pr-3">
+                    <input type="date" value={editing.date} onChange={(e) => setEditing({ ...editing, date: e.target.value })} className={inputClass} aria-label="Trip date" />
+                  </td>
+                  <td className="py-2 pr-3 font-mono">{describeRoute(entry)}</td>
+                  <td className="py-2 pr-3">
+                    <select value={editing.purpose} onChange={(e) => setEditing({ ...editing, purpose: e.target.value as TripPurpose })} className={inputClass} aria-label="Purpose">
+                      {TRIP_PURPOSES.map(p => <option key={p.purpose} value={p.purpose}>{p.icon} {p.label}</option>)}
+                    </select>
+                    <input type="text" value={editing.notes} onChange={(e) => setEditing({ ...editing, notes: e.target.value })} placeholder="Notes" className={`${inputClass} mt-1 w-full`} />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <select value={editing.cabinClass} onChange={(e) => setEditing({ ...editing, cabinClass: e.target.value as CabinClass })} className={inputClass} aria-label="Cabin class">
+                      {CABIN_CLASSES.map(c => <option key={c.cabinClass} value={c.cabinClass}>{c.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-3 text-right">
+                    <input type="number" min="1" value={editing.passengers} onChange={(e) => setEditing({ ...editing, passengers: Number(e.target.value) })} className={`${inputClass} w-20`} aria-label="Passengers" />
+                  </td>
+                  <td className="py-2 pr-3 text-right text-gray-500">recalculated on save</td>
+                  <td className="py-2 whitespace-nowrap">
+                    <button onClick={saveEdit} disabled={!editing.date} className="text-green-400 hover:text-green-300 mr-3 disabled:opacity-50">Save</button>
+                    <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-300">Cancel</button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={entry.id} className="border-b border-gray-800">
+                  <td className="py-2 pr-3 whitespace-nowrap">
+                    {entry.date}
+                    {entry.date > today && <span className="ml-2 text-xs text-amber-400">Planned</span>}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <span className="font-mono">{describeRoute(entry)}</span>
+                    {entry.notes && <p className="text-xs text-gray-500">{entry.notes}</p>}
+                  </td>
+                  <td className="py-2 pr-3">{purposeInfo(entry.purpose).icon} {purposeInfo(entry.purpose).label}</td>
+                  <td className="py-2 pr-3">{cabinLabel(entry.cabinClass)}</td>
+                  <td className="py-2 pr-3 text-right">{entry.passengers}</td>
+                  <td className="py-2 pr-3 text-right font-mono">
+                    {entry.emissions.toFixed(1)}
+                    {overBudget.has(entry.id) && <span className="block text-xs text-red-400">⚠️ Over budget</span>}
+                  </td>
+                  <td className="py-2 whitespace-nowrap">
+                    <button onClick={() => setEditing(entry)} className="text-blue-400 hover:text-blue-300 mr-3">Edit</button>
+                    <button onClick={() => deleteEntry(entry)} className="text-red-400 hover:text-red-300">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
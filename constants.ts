@@ -1,22 +1,228 @@
+import { Airport, CabinClass, Continent, DistanceBand, MapRenderMode, OffsetCatalogue, RegionPreset, TravelMode, TripPurpose } from './types';
 
-import { Airport } from './types';
+// Emission factors for each distance band, in kg CO₂ per economy passenger per kilometer.
+// Short flights burn proportionally more fuel because take-off and climb make up a larger
+// share of the trip, so their factor is higher than for long-haul flights.
+// Values are rounded from the UK Government (DEFRA) greenhouse gas conversion factors.
+export const DISTANCE_BANDS: { band: DistanceBand; label: string; maxDistance: number; factor: number }[] = [
+  { band: 'short', label: 'Short-haul (< 1,500 km)', maxDistance: 1500, factor: 0.151 },
+  { band: 'medium', label: 'Medium-haul (1,500–4,000 km)', maxDistance: 4000, factor: 0.130 },
+  { band: 'long', label: 'Long-haul (> 4,000 km)', maxDistance: Infinity, factor: 0.113 },
+];
+
+// How much more space (and therefore fuel) each cabin class takes up compared to economy.
+export const CABIN_CLASSES: { cabinClass: CabinClass; label: string; multiplier: number }[] = [
+  { cabinClass: 'economy', label: 'Economy', multiplier: 1.0 },
+  { cabinClass: 'premium', label: 'Premium Economy', multiplier: 1.6 },
+  { cabinClass: 'business', label: 'Business', multiplier: 2.9 },
+  { cabinClass: 'first', label: 'First', multiplier: 4.0 },
+];
+
+// Aircraft rarely fly the exact great-circle path because of air corridors, weather and holding.
+// We add this percentage to the great-circle distance to get a more realistic flown distance.
+export const DETOUR_CORRECTION = 0.08; // +8%
+
+// Non-CO₂ effects at altitude (contrails, NOx) warm the climate on top of the CO₂ itself.
+// When enabled, the CO₂ figure is multiplied by this radiative forcing index.
+export const RADIATIVE_FORCING_INDEX = 1.9;
+
+// Average door-to-door assumptions for a flight, used when comparing it with surface travel.
+export const FLIGHT_CRUISE_SPEED = 800; // km/h, averaged over taxi, climb, cruise and descent
+export const AIRPORT_OVERHEAD_HOURS = 2.5; // check-in, security, boarding and baggage claim
+
+// Emission factors and rough speeds for travelling overland instead of flying.
+// - factor: kg CO₂ per passenger-km, except for the car where it is per vehicle-km (divided by the occupancy)
+// - distanceMultiplier: roads and railways wind around terrain, so they are longer than the great-circle distance
+// - maxDistance: beyond this, the trip stops being a realistic alternative to flying
+export const SURFACE_MODES: {
+  mode: Exclude<TravelMode, 'flight'>;
+  label: string;
+  icon: string;
+  factor: number;
+  perVehicle: boolean;
+  distanceMultiplier: number;
+  averageSpeed: number; // km/h, including stops
+  overheadHours: number; // getting to the station and boarding
+  maxDistance: number; // km, measured along the road or railway
+}[] = [
+  { mode: 'rail', label: 'Train', icon: '🚆', factor: 0.035, perVehicle: false, distanceMultiplier: 1.25, averageSpeed: 70, overheadHours: 0.5, maxDistance: 4000 },
+  { mode: 'coach', label: 'Coach / bus', icon: '🚌', factor: 0.027, perVehicle: false, distanceMultiplier: 1.35, averageSpeed: 50, overheadHours: 0.25, maxDistance: 2500 },
+  { mode: 'car', label: 'Car', icon: '🚗', factor: 0.17, perVehicle: true, distanceMultiplier: 1.35, averageSpeed: 60, overheadHours: 0, maxDistance: 4000 },
+];
+
+// Which continents are joined by land, so a road or railway journey between them is possible.
+export const LANDMASSES: Record<Continent, string> = {
+  AF: 'afro-eurasia',
+  AS: 'afro-eurasia',
+  EU: 'afro-eurasia',
+  NA: 'americas',
+  SA: 'americas',
+  OC: 'oceania',
+  AN: 'antarctica',
+};
+
+// Island countries with no road or rail link to their neighbours. Travel within one of them is still possible overland.
+export const ISLAND_COUNTRIES = [
+  'Japan', 'Sri Lanka', 'Maldives', 'Indonesia', 'Philippines', 'Taiwan', 'New Zealand',
+  'Iceland', 'Ireland', 'Cyprus', 'Malta', 'Madagascar', 'Mauritius', 'Cuba', 'Jamaica',
+];
+
+// Countries without a usable passenger railway network, where the train is not an option.
+export const COUNTRIES_WITHOUT_RAIL = ['Nepal', 'Bhutan', 'Maldives', 'Iceland', 'Cyprus', 'Malta'];
+
+// The areas the live tracker can watch. The map opens on the first one.
+export const REGION_PRESETS: RegionPreset[] = [
+  { id: 'nepal', name: 'Nepal', bounds: { lamin: 26.3, lomin: 80.0, lamax: 30.5, lomax: 88.2 }, center: [28.3949, 84.1240], zoom: 7 },
+  { id: 'delhi', name: 'Delhi', bounds: { lamin: 27.3, lomin: 75.6, lamax: 29.8, lomax: 78.6 }, center: [28.5562, 77.1000], zoom: 8 },
+  { id: 'dubai', name: 'Dubai', bounds: { lamin: 24.2, lomin: 54.2, lamax: 26.3, lomax: 56.5 }, center: [25.2532, 55.3657], zoom: 8 },
+];
+
+// OpenSky charges more API credits for bigger areas, and anything over 400 square degrees costs the most.
+// Larger requests (e.g. a zoomed-out map) are shrunk around their centre to this size.
+export const MAX_BOUNDS_AREA = 400; // square degrees
+
+// How often the live tracker polls for new positions, and the longest it waits after repeated failures.
+export const POLL_INTERVAL_MS = 60_000;
+export const MAX_POLL_INTERVAL_MS = 10 * 60_000;
+
+// When the OpenSky daily credit balance drops below this, the tracker polls half as often to make it last.
+export const LOW_CREDIT_THRESHOLD = 100;
+
+// How long recorded traffic history is kept in the browser before it is deleted.
+export const HISTORY_RETENTION_MS = 7 * 24 * 3_600_000;
+
+// Snapshots further apart than this are treated as a gap in the recording, so aircraft aren't slid across it.
+export const HISTORY_MAX_INTERPOLATION_GAP_MS = 5 * 60_000;
+
+// How many airport events (takeoffs, landings, approaches, overflights) the arrivals/departures board keeps.
+export const MAX_AIRPORT_EVENTS = 100;
+
+// How many watchlist and geofence alerts the tracker keeps on screen.
+export const MAX_TRACKER_ALERTS = 50;
+
+// The reasons a trip can be logged under.
+export const TRIP_PURPOSES: { purpose: TripPurpose; label: string; icon: string }[] = [
+  { purpose: 'business', label: 'Business', icon: '💼' },
+  { purpose: 'conference', label: 'Conference', icon: '🎤' },
+  { purpose: 'fieldwork', label: 'Fieldwork', icon: '🧭' },
+  { purpose: 'leisure', label: 'Leisure', icon: '🏖️' },
+  { purpose: 'family', label: 'Family', icon: '👪' },
+  { purpose: 'other', label: 'Other', icon: '✈️' },
+];
+
+// The carbon budget bar turns amber once this share of the year's budget is used.
+export const BUDGET_WARNING_SHARE = 0.8;
+
+// How many rounds of tool calls the eco-plan assistant may make before it has to answer.
+export const MAX_CHAT_TOOL_ROUNDS = 4;
+
+// How the live map draws aircraft. "auto" picks one from the number of aircraft, using the limits below.
+export const MAP_RENDER_MODES: { id: MapRenderMode; label: string }[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: 'markers', label: 'Markers' },
+  { id: 'clustered', label: 'Clustered' },
+  { id: 'canvas', label: 'Canvas (fastest)' },
+];
+
+// In "auto" mode, above this many aircraft markers are clustered, and above the second limit they are drawn on a canvas.
+export const CLUSTER_THRESHOLD = 300;
+export const CANVAS_THRESHOLD = 1500;
+
+// From this zoom level in, clustered aircraft are always shown individually.
+export const CLUSTER_MAX_ZOOM = 9;
+
+// Aircraft within this distance of the user's route, and heading within this many degrees of it, count as flying along it.
+export const ROUTE_CORRIDOR_WIDTH_KM = 50;
+export const ROUTE_CORRIDOR_MAX_HEADING_DIFF = 30;
+
+// How long the map has to stay still in "follow viewport" mode before we request the new area.
+export const VIEWPORT_FETCH_DEBOUNCE_MS = 1000;
+
+// Trail colours by altitude, from the ground up. Each band applies up to (but not including) its maxAltitude in meters.
+export const ALTITUDE_COLOR_BANDS: { maxAltitude: number; color: string; label: string }[] = [
+  { maxAltitude: 1000, color: '#f87171', label: '< 3,000 ft' },
+  { maxAltitude: 3000, color: '#fb923c', label: '3,000–10,000 ft' },
+  { maxAltitude: 6000, color: '#facc15', label: '10,000–20,000 ft' },
+  { maxAltitude: 9000, color: '#4ade80', label: '20,000–30,000 ft' },
+  { maxAltitude: Infinity, color: '#60a5fa', label: '> 30,000 ft' },
+];
+
+// Assumptions for estimating the fuel burn of aircraft on the live map. We can't tell the aircraft type from
+// the OpenSky data, so every aircraft is treated as a typical single-aisle airliner (A320 / 737 class).
+export const LIVE_BURN_MODEL = {
+  cruiseFuelKgPerHour: 2500, // at the reference speed and altitude below
+  referenceSpeed: 230, // m/s (~830 km/h)
+  referenceAltitude: 11000, // m
+  lowAltitudePenalty: 0.25, // extra burn at sea level compared with cruise altitude, from the denser air
+  taxiFuelKgPerHour: 600,
+  climbThreshold: 2.5, // m/s of vertical rate before we call it a climb or descent
+  phaseMultipliers: { climb: 1.6, cruise: 1.0, descent: 0.35 },
+};
+
+// Burning 1 kg of jet fuel releases about 3.16 kg of CO₂ (ICAO).
+export const CO2_PER_KG_FUEL = 3.16;
+
+// Where the bundled carbon offset price catalogue is served from. Edit public/data/offset-catalogue.json to change
+// the project types, prices or currencies, or load another catalogue file from the offset cost panel.
+export const OFFSET_CATALOGUE_URL = '/data/offset-catalogue.json';
+
+// The offset prices used until the catalogue has loaded (or if it fails to load), matching the bundled file.
+// Prices are typical voluntary-market ranges in US dollars per tonne of CO₂.
+export const DEFAULT_OFFSET_CATALOGUE: OffsetCatalogue = {
+  name: 'EcoFly reference prices',
+  updated: '2026-10-01',
+  baseCurrency: 'USD',
+  currencies: [
+    { code: 'USD', rate: 1 },
+    { code: 'NPR', rate: 135.2 },
+    { code: 'INR', rate: 84.5 },
+    { code: 'EUR', rate: 0.92 },
+    { code: 'GBP', rate: 0.78 },
+  ],
+  projects: [
+    {
+      id: 'forestry',
+      name: 'Forestry and reforestation',
+      icon: '🌳',
+      description: 'Planting and protecting forests. Cheap, but the carbon can be lost again to fire, disease or logging.',
+      minPricePerTonne: 10,
+      maxPricePerTonne: 30,
+    },
+    {
+      id: 'cookstoves-nepal',
+      name: 'Clean cookstoves in Nepal',
+      icon: '🔥',
+      description: 'Efficient stoves and biogas for rural households, cutting firewood use and indoor smoke.',
+      minPricePerTonne: 6,
+      maxPricePerTonne: 18,
+    },
+    {
+      id: 'direct-air-capture',
+      name: 'Direct air capture',
+      icon: '🏭',
+      description: 'Machines that take CO₂ out of the air and store it underground for good. Permanent, but still very expensive.',
+      minPricePerTonne: 500,
+      maxPricePerTonne: 1000,
+    },
+  ],
+};
 
-// The factor used to estimate CO2 emissions per passenger per kilometer.
-// This is a common average used for such calculations.
-export const EMISSION_FACTOR = 0.115; // kg CO₂ per passenger-km
+// Where the bundled airport dataset (in the OurAirports `airports.csv` format) is served from.
+// Replace public/data/airports.csv with the full download from https://ourairports.com/data/ to search every airport.
+export const AIRPORTS_CSV_URL = '/data/airports.csv';
 
-// A sample list of airports. In a real-world application, this would come from a database or a larger API.
+// A small built-in list of airports, used until the airport dataset has loaded (or if it fails to load).
 // We include major hubs and airports in/around Nepal to support the app's focus.
 export const AIRPORTS: Airport[] = [
-  { iata: 'KTM', name: 'Tribhuvan International Airport', city: 'Kathmandu', country: 'Nepal', latitude: 27.6966, longitude: 85.3592 },
-  { iata: 'PKR', name: 'Pokhara International Airport', city: 'Pokhara', country: 'Nepal', latitude: 28.1997, longitude: 83.9942 },
-  { iata: 'DEL', name: 'Indira Gandhi International Airport', city: 'Delhi', country: 'India', latitude: 28.5562, longitude: 77.1000 },
-  { iata: 'BOM', name: 'Chhatrapati Shivaji Maharaj International Airport', city: 'Mumbai', country: 'India', latitude: 19.0896, longitude: 72.8656 },
-  { iata: 'DXB', name: 'Dubai International Airport', city: 'Dubai', country: 'United Arab Emirates', latitude: 25.2532, longitude: 55.3657 },
-  { iata: 'LHR', name: 'Heathrow Airport', city: 'London', country: 'United Kingdom', latitude: 51.4700, longitude: -0.4543 },
-  { iata: 'JFK', name: 'John F. Kennedy International Airport', city: 'New York', country: 'USA', latitude: 40.6413, longitude: -73.7781 },
-  { iata: 'SIN', name: 'Singapore Changi Airport', city: 'Singapore', country: 'Singapore', latitude: 1.3644, longitude: 103.9915 },
-  { iata: 'BKK', name: 'Suvarnabhumi Airport', city: 'Bangkok', country: 'Thailand', latitude: 13.6900, longitude: 100.7501 },
-  { iata: 'SYD', name: 'Sydney Kingsford Smith Airport', city: 'Sydney', country: 'Australia', latitude: -33.9461, longitude: 151.1772 },
-  { iata: 'FRA', name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany', latitude: 50.0379, longitude: 8.5622 },
+  { iata: 'KTM', icao: 'VNKT', name: 'Tribhuvan International Airport', type: 'large_airport', city: 'Kathmandu', country: 'Nepal', continent: 'AS', latitude: 27.6966, longitude: 85.3592, elevation: 4390 },
+  { iata: 'PKR', icao: 'VNPR', name: 'Pokhara International Airport', type: 'medium_airport', city: 'Pokhara', country: 'Nepal', continent: 'AS', latitude: 28.1997, longitude: 83.9942, elevation: 2697 },
+  { iata: 'DEL', icao: 'VIDP', name: 'Indira Gandhi International Airport', type: 'large_airport', city: 'Delhi', country: 'India', continent: 'AS', latitude: 28.5562, longitude: 77.1000, elevation: 777 },
+  { iata: 'BOM', icao: 'VABB', name: 'Chhatrapati Shivaji Maharaj International Airport', type: 'large_airport', city: 'Mumbai', country: 'India', continent: 'AS', latitude: 19.0896, longitude: 72.8656, elevation: 39 },
+  { iata: 'DXB', icao: 'OMDB', name: 'Dubai International Airport', type: 'large_airport', city: 'Dubai', country: 'United Arab Emirates', continent: 'AS', latitude: 25.2532, longitude: 55.3657, elevation: 62 },
+  { iata: 'LHR', icao: 'EGLL', name: 'Heathrow Airport', type: 'large_airport', city: 'London', country: 'United Kingdom', continent: 'EU', latitude: 51.4700, longitude: -0.4543, elevation: 83 },
+  { iata: 'JFK', icao: 'KJFK', name: 'John F. Kennedy International Airport', type: 'large_airport', city: 'New York', country: 'USA', continent: 'NA', latitude: 40.6413, longitude: -73.7781, elevation: 13 },
+  { iata: 'SIN', icao: 'WSSS', name: 'Singapore Changi Airport', type: 'large_airport', city: 'Singapore', country: 'Singapore', continent: 'AS', latitude: 1.3644, longitude: 103.9915, elevation: 22 },
+  { iata: 'BKK', icao: 'VTBS', name: 'Suvarnabhumi Airport', type: 'large_airport', city: 'Bangkok', country: 'Thailand', continent: 'AS', latitude: 13.6900, longitude: 100.7501, elevation: 5 },
+  { iata: 'SYD', icao: 'YSSY', name: 'Sydney Kingsford Smith Airport', type: 'large_airport', city: 'Sydney', country: 'Australia', continent: 'OC', latitude: -33.9461, longitude: 151.1772, elevation: 21 },
+  { iata: 'FRA', icao: 'EDDF', name: 'Frankfurt Airport', type: 'large_airport', city: 'Frankfurt', country: 'Germany', continent: 'EU', latitude: 50.0379, longitude: 8.5622, elevation: 364 },
 ];
@@ -0,0 +1,80 @@
+import { Airport, AirportType, Continent } from '../types';
+import { AIRPORTS_CSV_URL } from '../constants';
+import { parseCsvRecords } from '../utils/csv';
+
+// This service loads the airport dataset bundled with the app (in the OurAirports CSV format).
+
+// The airport types we import. Heliports, seaplane bases, balloon ports and closed airports are skipped.
+const IMPORTED_TYPES: AirportType[] = ['large_airport', 'medium_airport', 'small_airport'];
+
+// Bigger airports win when two rows share the same IATA code.
+const TYPE_RANK: Record<AirportType, number> = { large_airport: 0, medium_airport: 1, small_airport: 2 };
+
+// Turns ISO country codes ("NP") into readable names ("Nepal").
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+const getCountryName = (isoCode: string): string => {
+  try {
+    return countryNames.of(isoCode) ?? isoCode;
+  } catch {
+    // Intl.DisplayNames throws on codes it doesn't recognise (e.g. OurAirports' "XK" in some runtimes).
+    return isoCode;
+  }
+};
+
+/**
+ * Converts the text of an OurAirports `airports.csv` file into Airport objects.
+ * Only airports with an IATA code (the ones travellers can book) are kept.
+ * @param csvText The raw CSV file contents
+ * @returns The parsed airports, one per IATA code
+ */
+export function parseOurAirportsCsv(csvText: string): Airport[] {
+  const byIata = new Map<string, Airport>();
+
+  for (const record of parseCsvRecords(csvText)) {
+    const iata = record.iata_code?.trim().toUpperCase();
+    const type = record.type as AirportType;
+    if (!iata || !IMPORTED_TYPES.includes(type)) continue;
+
+    const latitude = parseFloat(record.latitude_deg);
+    const longitude = parseFloat(record.longitude_deg);
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) continue;
+
+    const elevation = parseFloat(record.elevation_ft);
+    // Older exports have no icao_code column; gps_code or ident hold the ICAO code there.
+    const icao = (record.icao_code || record.gps_code || record.ident || '').trim().toUpperCase();
+
+    const airport: Airport = {
+      iata,
+      icao,
+      name: record.name.trim(),
+      type,
+      city: record.municipality?.trim() || record.name.trim(),
+      country: getCountryName(record.iso_country),
+      continent: record.continent as Continent,
+      latitude,
+      longitude,
+      elevation: Number.isNaN(elevation) ? null : elevation,
+    };
+
+    const existing = byIata.get(iata);
+    if (!existing || TYPE_RANK[type] < TYPE_RANK[existing.type]) {
+      byIata.set(iata, airport);
+    }
+  }
+
+  return [...byIata.values()];
+}
+
+/**
+ * Downloads and parses the bundled airport dataset.
+ * @param url Where the CSV file is served from
+ * @returns A promise that resolves to the list of airports
+ */
+export const loadAirports = async (url: string = AIRPORTS_CSV_URL): Promise<Airport[]> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load the airport dataset (HTTP ${response.status}).`);
+  }
+  return parseOurAirportsCsv(await response.text());
+};
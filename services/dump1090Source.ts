@@ -0,0 +1,105 @@
+import { BoundingBox, FlightDataSource, FlightFetchResult, FlightState } from '../types';
+import { filterFlightsInBounds } from '../utils/bounds';
+
+// This service reads aircraft from a local ADS-B receiver running dump1090 (or a compatible decoder
+// such as readsb or tar1090), through the `aircraft.json` file it serves.
+
+const DUMP1090_URL = process.env.DUMP1090_URL || 'http://localhost:8080/data/aircraft.json';
+
+// A local receiver updates every second, so we can poll often without any rate limit.
+const DUMP1090_POLL_INTERVAL_MS = 5000;
+
+// Positions older than this are from aircraft that have flown out of the receiver's range.
+const MAX_POSITION_AGE_SECONDS = 60;
+
+const FEET_TO_METERS = 0.3048;
+const KNOTS_TO_MS = 0.514444;
+const FEET_PER_MINUTE_TO_MS = 0.00508;
+
+// One aircraft in dump1090's `aircraft.json`. Newer versions use alt_baro/gs/baro_rate,
+// older ones altitude/speed/vert_rate. Altitudes are in feet; "ground" means the aircraft is on the ground.
+interface Dump1090Aircraft {
+  hex: string;
+  flight?: string;
+  lat?: number;
+  lon?: number;
+  seen_pos?: number;
+  alt_baro?: number | 'ground';
+  alt_geom?: number;
+  altitude?: number | 'ground';
+  gs?: number;
+  speed?: number;
+  track?: number;
+  baro_rate?: number;
+  geom_rate?: number;
+  vert_rate?: number;
+}
+
+// Converts an optional value with a unit conversion factor, keeping null for missing data.
+const convert = (value: number | undefined, factor: number): number | null =>
+  value === undefined ? null : value * factor;
+
+/**
+ * Converts dump1090's aircraft list into our FlightState objects.
+ * The receiver doesn't know which country an aircraft is registered in, so that is left as "Unknown".
+ * @param aircraft The `aircraft` array from `aircraft.json`
+ * @returns The aircraft with a recent position
+ */
+export const parseDump1090Aircraft = (aircraft: Dump1090Aircraft[]): FlightState[] =>
+  aircraft
+    .filter(a => a.lat !== undefined && a.lon !== undefined && (a.seen_pos ?? 0) <= MAX_POSITION_AGE_SECONDS)
+    .map(a => {
+      const baroAltitude = a.alt_baro ?? a.altitude;
+      const onGround = baroAltitude === 'ground';
+      return {
+        icao24: a.hex.replace(/^~/, '').toLowerCase(), // "~" marks addresses that aren't real ICAO addresses
+        callsign: a.flight?.trim() || 'N/A',
+        origin_country: 'Unknown',
+        latitude: a.lat!,
+        longitude: a.lon!,
+        baro_altitude: typeof baroAltitude === 'number' ? baroAltitude * FEET_TO_METERS : onGround ? 0 : null,
+        geo_altitude: convert(a.alt_geom, FEET_TO_METERS),
+        on_ground: onGround,
+        velocity: convert(a.gs ?? a.speed, KNOTS_TO_MS),
+        true_track: a.track ?? null,
+        vertical_rate: convert(a.baro_rate ?? a.geom_rate ?? a.vert_rate, FEET_PER_MINUTE_TO_MS),
+      };
+    });
+
+/**
+ * Creates a data source that reads a local dump1090 receiver.
+ * @param url The address of the receiver's `aircraft.json`
+ * @returns The data source
+ */
+export function createDump1090Source(url: string = DUMP1090_URL): FlightDataSource {
+  const fetchFlights = async (bounds: BoundingBox): Promise<FlightFetchResult> => {
+    let response: Response;
+    try {
+      response = await fetch(url, { cache: 'no-store' });
+    } catch {
+      return { status: 'error', kind: 'network', message: `Could not reach the ADS-B receiver at ${url}.` };
+    }
+    if (!response.ok) {
+      return { status: 'error', kind: 'http', message: `The ADS-B receiver returned HTTP ${response.status}.` };
+    }
+
+    try {
+      const data = await response.json();
+      const flights = filterFlightsInBounds(parseDump1090Aircraft(data.aircraft ?? []), bounds);
+      const fetchedAt = typeof data.now === 'number' ? data.now * 1000 : Date.now();
+      return flights.length > 0
+        ? { status: 'ok', flights, fetchedAt, remainingCredits: null }
+        : { status: 'empty', fetchedAt, remainingCredits: null };
+    } catch {
+      return { status: 'error', kind: 'parse', message: 'The ADS-B receiver sent data we could not read.' };
+    }
+  };
+
+  return {
+    id: 'dump1090',
+    label: 'Local ADS-B receiver',
+    description: `Aircraft picked up by your own dump1090 receiver (${url}).`,
+    pollIntervalMs: DUMP1090_POLL_INTERVAL_MS,
+    fetchFlights,
+  };
+}
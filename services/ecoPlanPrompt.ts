@@ -0,0 +1,95 @@
+import { EcoChatRequest, EcoPlanRequest } from '../types';
+import { ECO_TIP_CATEGORIES, ECO_TIP_PRIORITIES } from '../utils/ecoPlan';
+
+// The prompt and answer format shared by every AI model that writes eco-plans.
+
+// The shape we ask models to answer in, as JSON Schema. Models with structured output follow it,
+// but every answer is still checked with parseEcoPlan before it's shown.
+export const ECO_PLAN_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    intro: { type: 'string', description: 'One or two friendly sentences introducing the plan.' },
+    tips: {
+      type: 'array',
+      minItems: 3,
+      maxItems: 5,
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'A short heading for the tip.' },
+          description: { type: 'string', description: 'One or two sentences of practical advice for this trip.' },
+          category: { type: 'string', enum: ECO_TIP_CATEGORIES },
+          estimatedSavingKg: { type: ['number', 'null'], description: 'Estimated kg CO₂ saved per passenger, or null if it cannot be estimated.' },
+          priority: { type: 'string', enum: ECO_TIP_PRIORITIES },
+        },
+        required: ['title', 'description', 'category', 'estimatedSavingKg', 'priority'],
+        additionalProperties: false,
+      },
+    },
+    offsetSuggestion: {
+      type: 'object',
+      properties: {
+        description: { type: 'string', description: 'How to offset the remaining emissions, and what to look for in a good offset scheme.' },
+        co2ToOffsetKg: { type: 'number', description: 'kg CO₂ per passenger left to offset after following the tips.' },
+      },
+      required: ['description', 'co2ToOffsetKg'],
+      additionalProperties: false,
+    },
+  },
+  required: ['intro', 'tips', 'offsetSuggestion'],
+  additionalProperties: false,
+};
+
+// Describes the trip in a sentence or two, for the start of a prompt.
+const describeTrip = ({ from, to, legs, roundTrip, distance, emissions }: EcoPlanRequest): string => {
+  const route = legs.length > 1
+    ? ` via ${legs.slice(0, -1).map(leg => `${leg.to.city} (${leg.to.iata})`).join(', ')}`
+    : '';
+  return `
+    A user is planning a ${roundTrip ? 'round trip' : 'flight'} from ${from.name} (${from.city}, ${from.iata}) to ${to.name} (${to.city}, ${to.iata})${route}.
+    The flight distance is approximately ${Math.round(distance)} km, producing about ${emissions.toFixed(1)} kg of CO₂ per passenger.`;
+};
+
+/**
+ * Builds the instructions for an AI model to write an eco-plan for a trip.
+ * @param request The trip
+ * @returns The prompt text
+ */
+export function buildEcoPlanPrompt(request: EcoPlanRequest): string {
+  const { to } = request;
+  // We create a detailed prompt for the AI to ensure it gives a relevant and helpful response.
+  return `
+    You are an expert eco-travel assistant for a project called "EcoFly".${describeTrip(request)}
+
+    Please provide a concise, actionable, and encouraging eco-friendly travel plan for this specific trip.
+    Give 3-4 practical tips covering topics like:
+    - Choosing more sustainable airlines or routes if possible.
+    - Packing light.
+    - Using public transport at the destination city (${to.city}).
+    For each tip, estimate the CO₂ it saves per passenger where you reasonably can, and rank how much difference it makes.
+    Finish with a carbon offsetting suggestion for the emissions that remain.
+    Keep the tone positive and helpful.
+    Answer only with JSON in the requested format.
+  `;
+}
+
+/**
+ * Builds the system instructions for a follow-up conversation about a trip and its eco-plan.
+ * @param request The trip, the plan on screen and the conversation so far
+ * @returns The instructions text
+ */
+export function buildEcoChatInstructions({ trip, plan, tools }: EcoChatRequest): string {
+  const planSummary = plan
+    ? `
+    You already gave them this eco-plan:
+    ${JSON.stringify(plan)}`
+    : '';
+  return `
+    You are an expert eco-travel assistant for a project called "EcoFly", answering follow-up questions about a trip.${describeTrip(trip)}${planSummary}
+
+    Answer in a few short, friendly sentences of plain text.
+    Whenever you give a distance or an amount of CO₂, get it from one of your tools (${tools.map(tool => tool.name).join(', ')})
+    rather than estimating it yourself, so your numbers match the ones the app shows.
+    If a question has nothing to do with travel or its footprint, gently steer back to the trip.
+  `;
+}
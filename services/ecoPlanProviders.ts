@@ -0,0 +1,63 @@
+import { ChatMessage, EcoChatRequest, EcoPlan, EcoPlanProvider, EcoPlanRequest, EcoPlanStreamOptions } from '../types';
+import { geminiEcoPlanProvider } from './geminiService';
+import { localEcoPlanProvider } from './openAiCompatibleService';
+import { templateEcoPlanProvider } from './templateEcoPlanService';
+
+// Every provider that can write an eco-plan, in order of preference. The template provider is last, as it always works.
+export const ECO_PLAN_PROVIDERS: EcoPlanProvider[] = [
+  geminiEcoPlanProvider,
+  localEcoPlanProvider,
+  templateEcoPlanProvider,
+];
+
+/**
+ * Writes an eco-plan with the first available provider, falling back to the next one if it fails.
+ * @param request The trip to write the plan for
+ * @param options An abort signal, and a callback for the plan so far
+ * @param onProviderChange Called when a provider starts writing, so the UI can say where the plan comes from
+ * @returns The plan, and the provider that wrote it
+ */
+export async function generatePlanWithFallback(
+  request: EcoPlanRequest,
+  options: EcoPlanStreamOptions = {},
+  onProviderChange?: (provider: EcoPlanProvider) => void
+): Promise<{ plan: EcoPlan; provider: EcoPlanProvider }> {
+  let lastError: unknown = null;
+  for (const provider of ECO_PLAN_PROVIDERS) {
+    if (!(await provider.isAvailable())) continue;
+    onProviderChange?.(provider);
+    try {
+      return { plan: await provider.generatePlan(request, options), provider };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn(`The ${provider.label} eco-plan provider failed, trying the next one:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError ?? new Error('No eco-plan provider is available.');
+}
+
+/**
+ * Answers the latest message of a conversation with the first available provider that can chat,
+ * falling back to the next one if it fails.
+ * @param request The trip, the plan on screen, the conversation so far and the tools on offer
+ * @param options An abort signal
+ * @returns The assistant's reply, and the provider that wrote it
+ */
+export async function sendChatWithFallback(
+  request: EcoChatRequest,
+  options: { signal?: AbortSignal } = {}
+): Promise<{ message: ChatMessage; provider: EcoPlanProvider }> {
+  let lastError: unknown = null;
+  for (const provider of ECO_PLAN_PROVIDERS) {
+    if (!provider.chat || !(await provider.isAvailable())) continue;
+    try {
+      return { message: await provider.chat(request, options), provider };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn(`The ${provider.label} eco-plan provider couldn't chat, trying the next one:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError ?? new Error('Follow-up questions need an AI model. Set GEMINI_API_KEY or LOCAL_LLM_URL, and check you are online.');
+}
@@ -0,0 +1,13 @@
+import { FlightDataSource } from '../types';
+import { openSkySource } from './openskyService';
+import { createReplaySource } from './replaySource';
+import { syntheticTrafficSource } from './syntheticTrafficSource';
+import { createDump1090Source } from './dump1090Source';
+
+// Every data source the live tracker can switch between. The first one is used by default.
+export const FLIGHT_DATA_SOURCES: FlightDataSource[] = [
+  openSkySource,
+  createReplaySource(),
+  syntheticTrafficSource,
+  createDump1090Source(),
+];
@@ -1,55 +1,127 @@
-
-import { GoogleGenAI } from "@google/genai";
-import { Airport } from '../types';
+import { Content, GoogleGenAI } from "@google/genai";
+import { ChatMessage, ChatToolCall, EcoChatRequest, EcoPlan, EcoPlanProvider, EcoPlanRequest, EcoPlanStreamOptions } from '../types';
+import { MAX_CHAT_TOOL_ROUNDS } from '../constants';
+import { createAbortError, parseEcoPlanJson, parsePartialEcoPlan } from '../utils/ecoPlan';
+import { runEcoTool } from '../utils/ecoTools';
+import { buildEcoChatInstructions, buildEcoPlanPrompt, ECO_PLAN_JSON_SCHEMA } from './ecoPlanPrompt';
 
 // This service is responsible for communicating with the Gemini AI model.
 
-// Initialize the Google GenAI client.
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
 // The API key is securely managed by the environment and not hardcoded.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+const apiKey = process.env.API_KEY as string | undefined;
+
+// The Google GenAI client, created the first time it's needed so a missing key doesn't break the page.
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  ai ??= new GoogleGenAI({ apiKey: apiKey as string });
+  return ai;
+};
 
 /**
- * Generates an eco-friendly travel plan using the Gemini AI model.
- * @param fromAirport The departure airport.
- * @param toAirport The arrival airport.
- * @param distance The flight distance in kilometers.
- * @param emissions The estimated CO2 emissions in kilograms.
- * @returns A string containing the AI-generated travel plan.
+ * Generates an eco-friendly travel plan using the Gemini AI model, streaming it as it's written.
+ * @param request The trip to write the plan for.
+ * @param options An abort signal, and a callback for the plan so far.
+ * @returns The complete AI-generated travel plan, validated.
  */
 export async function generateEcoPlan(
-  fromAirport: Airport,
-  toAirport: Airport,
-  distance: number,
-  emissions: number
-): Promise<string> {
-  // We create a detailed prompt for the AI to ensure it gives a relevant and helpful response.
-  const prompt = `
-    You are an expert eco-travel assistant for a project called "EcoFly".
-    A user is planning a flight from ${fromAirport.name} (${fromAirport.city}, ${fromAirport.iata}) to ${toAirport.name} (${toAirport.city}, ${toAirport.iata}).
-    The flight distance is approximately ${Math.round(distance)} km, producing about ${emissions.toFixed(1)} kg of CO₂ per passenger.
-
-    Please provide a concise, actionable, and encouraging eco-friendly travel plan for this specific trip.
-    Structure your response in Markdown.
-    Include a friendly introductory sentence.
-    Then, provide 3-4 bullet points with practical tips covering topics like:
-    - Choosing more sustainable airlines or routes if possible.
-    - Packing light.
-    - Carbon offsetting.
-    - Using public transport at the destination city (${toAirport.city}).
-    Keep the tone positive and helpful.
-  `;
-
+  request: EcoPlanRequest,
+  { signal, onProgress }: EcoPlanStreamOptions = {}
+): Promise<EcoPlan> {
+  let text = '';
   try {
-    // We send the prompt to the Gemini model and ask for a response.
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
+    // We send the prompt to the Gemini model and ask for a JSON response in our schema, delivered in chunks.
+    const stream = await getClient().models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents: buildEcoPlanPrompt(request),
+        config: {
+          responseMimeType: 'application/json',
+          responseJsonSchema: ECO_PLAN_JSON_SCHEMA,
+          abortSignal: signal,
+        },
     });
-    
-    // We extract the text content from the AI's response.
-    return response.text;
+    for await (const chunk of stream) {
+      if (signal?.aborted) throw createAbortError();
+      text += chunk.text ?? '';
+      onProgress?.(parsePartialEcoPlan(text));
+    }
   } catch (error) {
+    if (signal?.aborted) throw createAbortError();
     console.error("Gemini API call failed:", error);
     throw new Error("Failed to generate the eco-plan from AI. The service may be temporarily unavailable.");
   }
+
+  // We check the complete response has the shape we asked for before handing it to the UI.
+  try {
+    return parseEcoPlanJson(text);
+  } catch (error) {
+    console.error("Gemini returned an unusable eco-plan:", error, text);
+    throw new Error("The AI returned an eco-plan we couldn't read. Please try again.");
+  }
 }
+
+/**
+ * Answers the latest message of a conversation about a trip with Gemini, letting it run the app's calculations first.
+ * @param request The trip, the plan on screen, the conversation so far and the tools on offer
+ * @param options An abort signal
+ * @returns The assistant's reply, with the calculations it ran
+ */
+export async function chatAboutEcoPlan(
+  request: EcoChatRequest,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<ChatMessage> {
+  // Gemini calls the assistant's side of the conversation "model".
+  const contents: Content[] = request.history.map(message => ({
+    role: message.role === 'user' ? 'user' : 'model',
+    parts: [{ text: message.text }],
+  }));
+  const toolCalls: ChatToolCall[] = [];
+
+  try {
+    for (let round = 0; round <= MAX_CHAT_TOOL_ROUNDS; round++) {
+      const response = await getClient().models.generateContent({
+        model: GEMINI_MODEL,
+        contents,
+        config: {
+          systemInstruction: buildEcoChatInstructions(request),
+          // On the last round we stop offering tools, so the model has to answer.
+          tools: round < MAX_CHAT_TOOL_ROUNDS
+            ? [{ functionDeclarations: request.tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })) }]
+            : undefined,
+          abortSignal: signal,
+        },
+      });
+
+      const calls = response.functionCalls ?? [];
+      if (calls.length === 0) {
+        return { id: `assistant-${Date.now().toString(36)}`, role: 'assistant', text: response.text?.trim() ?? '', toolCalls };
+      }
+
+      // Run each calculation the model asked for and send the answers back.
+      const parts = calls.map(call => {
+        const name = call.name ?? '';
+        const args = call.args ?? {};
+        const result = runEcoTool(request.tools, name, args);
+        toolCalls.push({ name, args, result });
+        return { functionResponse: { id: call.id, name, response: { result } } };
+      });
+      contents.push(response.candidates?.[0]?.content ?? { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+      contents.push({ role: 'user', parts });
+    }
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    console.error("Gemini chat call failed:", error);
+    throw new Error("The AI assistant couldn't answer. The service may be temporarily unavailable.");
+  }
+  throw new Error("The AI assistant didn't finish its answer. Please try asking another way.");
+}
+
+// Gemini as an eco-plan provider. It needs an API key and a network connection.
+export const geminiEcoPlanProvider: EcoPlanProvider = {
+  id: 'gemini',
+  label: `Google Gemini (${GEMINI_MODEL})`,
+  isAvailable: async () => Boolean(apiKey) && navigator.onLine,
+  generatePlan: generateEcoPlan,
+  chat: chatAboutEcoPlan,
+};
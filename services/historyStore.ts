@@ -0,0 +1,107 @@
+import { HistorySnapshot } from '../types';
+import { HISTORY_RETENTION_MS } from '../constants';
+
+// This service keeps the tracker's past snapshots in the browser's IndexedDB, which (unlike localStorage)
+// has room for hours of traffic.
+
+const DB_NAME = 'ecofly-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Wraps an IndexedDB request in a promise.
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Opens the database once, creating the snapshot store the first time.
+// Snapshots are keyed by [sourceId, timestamp], so one source's history can be read as a single range.
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['sourceId', 'timestamp'] });
+      store.createIndex('timestamp', 'timestamp');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    // Allow a later call to try again.
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
+
+// All keys for one source between two times (inclusive).
+const sourceRange = (sourceId: string, from: number = 0, to: number = Number.MAX_SAFE_INTEGER): IDBKeyRange =>
+  IDBKeyRange.bound([sourceId, from], [sourceId, to]);
+
+/**
+ * Stores a snapshot, and deletes the same source's snapshots older than the retention period so the history can't grow forever.
+ * @param snapshot The aircraft seen at one moment
+ */
+export async function saveSnapshot(snapshot: HistorySnapshot): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  store.put(snapshot);
+
+  // Only this source's old snapshots go: sources keep their own clocks (a replay's recording may be months old),
+  // so one source's time says nothing about how old another's history is.
+  store.delete(sourceRange(snapshot.sourceId, 0, snapshot.timestamp - HISTORY_RETENTION_MS));
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Reads one source's snapshots within a time window, oldest first.
+ * @param sourceId The data source the snapshots came from
+ * @param from The start of the window (ms since epoch)
+ * @param to The end of the window (ms since epoch)
+ * @returns The snapshots
+ */
+export async function getSnapshots(sourceId: string, from: number, to: number): Promise<HistorySnapshot[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return promisify(store.getAll(sourceRange(sourceId, from, to)) as IDBRequest<HistorySnapshot[]>);
+}
+
+/**
+ * Finds the first and last time anything was recorded for a source.
+ * @param sourceId The data source
+ * @returns The earliest and latest snapshot times, or null if nothing is recorded
+ */
+export async function getRecordedRange(sourceId: string): Promise<{ start: number; end: number } | null> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const [first, last] = await Promise.all([
+    promisify(store.openCursor(sourceRange(sourceId), 'next')),
+    promisify(store.openCursor(sourceRange(sourceId), 'prev')),
+  ]);
+  if (!first || !last) return null;
+  return {
+    start: (first.value as HistorySnapshot).timestamp,
+    end: (last.value as HistorySnapshot).timestamp,
+  };
+}
+
+/**
+ * Deletes every recorded snapshot for a source.
+ * @param sourceId The data source
+ */
+export async function clearHistory(sourceId: string): Promise<void> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  await promisify(store.delete(sourceRange(sourceId)));
+}
@@ -0,0 +1,18 @@
+import { OffsetCatalogue } from '../types';
+import { OFFSET_CATALOGUE_URL } from '../constants';
+import { parseOffsetCatalogue } from '../utils/offsets';
+
+// This service loads the carbon offset price catalogue bundled with the app.
+
+/**
+ * Downloads and checks an offset price catalogue.
+ * @param url Where the catalogue JSON is served from
+ * @returns A promise that resolves to the catalogue
+ */
+export const loadOffsetCatalogue = async (url: string = OFFSET_CATALOGUE_URL): Promise<OffsetCatalogue> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load the offset price catalogue (HTTP ${response.status}).`);
+  }
+  return parseOffsetCatalogue(await response.json());
+};
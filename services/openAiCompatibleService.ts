@@ -0,0 +1,199 @@
+import { ChatMessage, ChatToolCall, EcoChatRequest, EcoPlan, EcoPlanProvider, EcoPlanRequest, EcoPlanStreamOptions } from '../types';
+import { MAX_CHAT_TOOL_ROUNDS } from '../constants';
+import { createAbortError, parseEcoPlanJson, parsePartialEcoPlan } from '../utils/ecoPlan';
+import { runEcoTool } from '../utils/ecoTools';
+import { buildEcoChatInstructions, buildEcoPlanPrompt, ECO_PLAN_JSON_SCHEMA } from './ecoPlanPrompt';
+
+// This service talks to a self-hosted model through an OpenAI-compatible chat API,
+// as served by Ollama, llama.cpp, LM Studio, vLLM and others.
+
+const LOCAL_LLM_URL = (process.env.LOCAL_LLM_URL || '').replace(/\/+$/, ''); // e.g. http://localhost:11434/v1
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY;
+
+// How long we wait for the server to answer the availability check.
+const AVAILABILITY_TIMEOUT_MS = 1500;
+
+const headers = (): HeadersInit => ({
+  'Content-Type': 'application/json',
+  ...(LOCAL_LLM_API_KEY ? { Authorization: `Bearer ${LOCAL_LLM_API_KEY}` } : {}),
+});
+
+/**
+ * Checks whether the local model server is configured and answering.
+ * @returns True if the server listed its models
+ */
+async function isLocalModelAvailable(): Promise<boolean> {
+  if (!LOCAL_LLM_URL) return false;
+  try {
+    const response = await fetch(`${LOCAL_LLM_URL}/models`, {
+      headers: headers(),
+      signal: AbortSignal.timeout(AVAILABILITY_TIMEOUT_MS),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the text pieces out of a server-sent events stream of chat completion chunks.
+ * @param body The response body
+ * @param onText Called with each piece of generated text
+ */
+async function readCompletionStream(body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by newlines; the last line may still be incomplete.
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || data === '' || data === '[DONE]') continue;
+      const content = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (typeof content === 'string') onText(content);
+    }
+  }
+}
+
+/**
+ * Generates an eco-friendly travel plan with the self-hosted model, streaming it as it's written.
+ * @param request The trip to write the plan for
+ * @param options An abort signal, and a callback for the plan so far
+ * @returns The complete travel plan, validated
+ */
+export async function generateLocalEcoPlan(
+  request: EcoPlanRequest,
+  { signal, onProgress }: EcoPlanStreamOptions = {}
+): Promise<EcoPlan> {
+  let text = '';
+  try {
+    const response = await fetch(`${LOCAL_LLM_URL}/chat/completions`, {
+      method: 'POST',
+      headers: headers(),
+      signal,
+      body: JSON.stringify({
+        model: LOCAL_LLM_MODEL,
+        stream: true,
+        messages: [{ role: 'user', content: buildEcoPlanPrompt(request) }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'eco_plan', strict: true, schema: ECO_PLAN_JSON_SCHEMA },
+        },
+      }),
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`The local model server returned HTTP ${response.status}.`);
+    }
+    await readCompletionStream(response.body, piece => {
+      text += piece;
+      onProgress?.(parsePartialEcoPlan(text));
+    });
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    console.error('Local model call failed:', error);
+    throw new Error('Failed to generate the eco-plan with the local model. Is the server running?');
+  }
+
+  try {
+    return parseEcoPlanJson(text);
+  } catch (error) {
+    console.error('The local model returned an unusable eco-plan:', error, text);
+    throw new Error("The local model returned an eco-plan we couldn't read. Please try again.");
+  }
+}
+
+// A tool call as it appears in an OpenAI-compatible chat completion.
+interface CompletionToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string }; // arguments is a JSON string
+}
+
+/**
+ * Reads the arguments of a tool call, which some models get slightly wrong.
+ * @param text The JSON text of the arguments
+ * @returns The arguments, or an empty object if they aren't valid JSON
+ */
+function parseToolArguments(text: string): Record<string, unknown> {
+  try {
+    const args = JSON.parse(text || '{}');
+    return typeof args === 'object' && args !== null ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Answers the latest message of a conversation about a trip with the self-hosted model,
+ * letting it run the app's calculations first.
+ * @param request The trip, the plan on screen, the conversation so far and the tools on offer
+ * @param options An abort signal
+ * @returns The assistant's reply, with the calculations it ran
+ */
+export async function chatWithLocalModel(
+  request: EcoChatRequest,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<ChatMessage> {
+  const messages: Record<string, unknown>[] = [
+    { role: 'system', content: buildEcoChatInstructions(request) },
+    ...request.history.map(message => ({ role: message.role, content: message.text })),
+  ];
+  const tools = request.tools.map(({ name, description, parameters }) => ({
+    type: 'function',
+    function: { name, description, parameters },
+  }));
+  const toolCalls: ChatToolCall[] = [];
+
+  try {
+    for (let round = 0; round <= MAX_CHAT_TOOL_ROUNDS; round++) {
+      const response = await fetch(`${LOCAL_LLM_URL}/chat/completions`, {
+        method: 'POST',
+        headers: headers(),
+        signal,
+        body: JSON.stringify({
+          model: LOCAL_LLM_MODEL,
+          messages,
+          // On the last round we stop offering tools, so the model has to answer.
+          ...(round < MAX_CHAT_TOOL_ROUNDS ? { tools } : {}),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`The local model server returned HTTP ${response.status}.`);
+      }
+      const message = (await response.json()).choices?.[0]?.message;
+      const calls: CompletionToolCall[] = message?.tool_calls ?? [];
+      if (calls.length === 0) {
+        return { id: `assistant-${Date.now().toString(36)}`, role: 'assistant', text: String(message?.content ?? '').trim(), toolCalls };
+      }
+
+      // Run each calculation the model asked for and send the answers back.
+      messages.push({ role: 'assistant', content: message.content ?? null, tool_calls: calls });
+      for (const call of calls) {
+        const args = parseToolArguments(call.function.arguments);
+        const result = runEcoTool(request.tools, call.function.name, args);
+        toolCalls.push({ name: call.function.name, args, result });
+        messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    console.error('Local model chat call failed:', error);
+    throw new Error("The local model couldn't answer. Is the server running?");
+  }
+  throw new Error("The local model didn't finish its answer. Please try asking another way.");
+}
+
+// A self-hosted model as an eco-plan provider. It's used when LOCAL_LLM_URL is set and the server answers.
+export const localEcoPlanProvider: EcoPlanProvider = {
+  id: 'local',
+  label: `Local model (${LOCAL_LLM_MODEL})`,
+  isAvailable: isLocalModelAvailable,
+  generatePlan: generateLocalEcoPlan,
+  chat: chatWithLocalModel,
+};
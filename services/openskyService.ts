@@ -1,51 +1,241 @@
-
-import { FlightState, FlightStateVector } from '../types';
+import { BoundingBox, FlightDataSource, FlightFetchErrorKind, FlightFetchResult, FlightState, FlightStateVector } from '../types';
+import { POLL_INTERVAL_MS } from '../constants';
+import { toRequestBounds } from '../utils/bounds';
 
 // This service handles fetching live flight data from the OpenSky Network API.
 
-// Bounding box coordinates for the Nepal region.
-// This tells the API to only send us flights currently within this geographical area.
-const NEPAL_BOUNDS = {
-  lamin: 26.3, // Minimum Latitude
-  lomin: 80.0, // Minimum Longitude
-  lamax: 30.5, // Maximum Latitude
-  lomax: 88.2, // Maximum Longitude
+const OPENSKY_API_URL = 'https://opensky-network.org/api/states/all';
+
+// Settings for an OpenSky client. Without a token URL, requests are anonymous (fewer credits, coarser data).
+export interface OpenSkyClientConfig {
+  // Where to get an access token. This is a server-side proxy that holds the client credentials
+  // (see vite.config.ts), because a client secret in the browser could be read by anyone.
+  tokenUrl?: string;
+  maxRetries: number; // retries for network errors and server errors (5xx)
+  baseRetryDelayMs: number; // doubled on every retry
+}
+
+const DEFAULT_CONFIG: OpenSkyClientConfig = {
+  // Set when the server has OpenSky credentials to exchange for a token.
+  tokenUrl: process.env.OPENSKY_TOKEN_URL,
+  maxRetries: 3,
+  baseRetryDelayMs: 1000,
+};
+
+/**
+ * An error raised while talking to OpenSky. `kind` says what went wrong, so callers can react
+ * differently to a rate limit, bad credentials or an outage.
+ */
+export class OpenSkyError extends Error {
+  constructor(
+    public readonly kind: FlightFetchErrorKind | 'rate-limited',
+    message: string,
+    public readonly status: number | null = null,
+    public readonly retryAfterSeconds: number | null = null
+  ) {
+    super(message);
+    this.name = 'OpenSkyError';
+  }
+}
+
+// Builds the request URL for the flights inside a bounding box.
+const buildStatesUrl = (bounds: BoundingBox): string =>
+  `${OPENSKY_API_URL}?lamin=${bounds.lamin}&lomin=${bounds.lomin}&lamax=${bounds.lamax}&lomax=${bounds.lomax}`;
+
+// Waits for the given number of milliseconds.
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Reads a numeric response header, returning null when it is missing or not a number.
+const readNumberHeader = (response: Response, name: string): number | null => {
+  const value = response.headers.get(name);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
 };
 
-const OPENSKY_API_URL = `https://opensky-network.org/api/states/all?lamin=${NEPAL_BOUNDS.lamin}&lomin=${NEPAL_BOUNDS.lomin}&lamax=${NEPAL_BOUNDS.lamax}&lomax=${NEPAL_BOUNDS.lomax}`;
+/**
+ * Converts the raw `states/all` response into our FlightState objects.
+ * @param data The parsed JSON body of a `states/all` response.
+ * @returns The flights that have a position.
+ */
+export const parseStatesResponse = (data: { states?: FlightStateVector[] | null }): FlightState[] => {
+  // The API returns an array of arrays. We need to process this into a more usable format.
+  const states: FlightStateVector[] = data.states || [];
+
+  // We filter out any flights that don't have position data and map them to our FlightState object.
+  return states
+    .filter(state => state[5] != null && state[6] != null) // Ensure longitude and latitude are not null
+    .map((state: FlightStateVector) => ({
+      icao24: state[0],
+      callsign: state[1]?.trim() || 'N/A', // Clean up callsign
+      origin_country: state[2],
+      longitude: state[5],
+      latitude: state[6],
+      baro_altitude: state[7], // Altitude in meters
+      geo_altitude: state[13], // GPS altitude in meters
+      on_ground: state[8],
+      velocity: state[9], // Speed in meters/second
+      true_track: state[10], // Direction in degrees
+      vertical_rate: state[11], // Climb (+) or descent (-) rate in meters/second
+    }));
+};
 
 /**
- * Fetches live flight states for the Nepal region from the OpenSky Network.
- * @returns A promise that resolves to an array of FlightState objects.
+ * Creates an OpenSky client. The client gets an OAuth2 access token from the token proxy when one is configured,
+ * retries failed requests with exponential backoff, reads the rate-limit headers, and shares one request
+ * between callers that ask for the same area at the same time.
+ * @param overrides Settings to change from the defaults.
+ * @returns The client.
  */
-export const fetchLiveFlights = async (): Promise<FlightState[]> => {
-  try {
-    // We make a request to the OpenSky API.
-    const response = await fetch(OPENSKY_API_URL);
+export function createOpenSkyClient(overrides: Partial<OpenSkyClientConfig> = {}) {
+  const config: OpenSkyClientConfig = { ...DEFAULT_CONFIG, ...overrides };
+  // Cleared if the token proxy turns out not to exist (e.g. on a static host), so requests fall back to anonymous.
+  let isAuthenticated = !!config.tokenUrl;
+
+  let token: { value: string; expiresAt: number } | null = null;
+  // Requests that are still running, keyed by URL, so identical requests share one network call.
+  const inFlight = new Map<string, Promise<{ flights: FlightState[]; remainingCredits: number | null }>>();
+
+  // Gets an access token, reusing the current one until shortly before it expires.
+  // Returns null if there is no working token proxy to ask.
+  const getAccessToken = async (): Promise<string | null> => {
+    if (token && Date.now() < token.expiresAt) return token.value;
+
+    let response: Response;
+    try {
+      response = await fetch(config.tokenUrl!, { method: 'POST' });
+    } catch {
+      throw new OpenSkyError('network', 'Could not reach the OpenSky token proxy.');
+    }
+    // A static host without the proxy answers with a 404 or 405, or with the app's own HTML page,
+    // so anything other than a token means there is no proxy to use.
+    const body: { access_token?: unknown; expires_in?: unknown } | null = response.ok ? await response.json().catch(() => null) : null;
+    if (typeof body?.access_token !== 'string' || body.access_token === ''
+      || typeof body.expires_in !== 'number' || !Number.isFinite(body.expires_in) || body.expires_in <= 0) {
+      console.warn(`The OpenSky token proxy did not return a token (HTTP ${response.status}), so live flight requests are anonymous.`);
+      isAuthenticated = false;
+      return null;
+    }
+    // Renew 30 seconds early so a token never expires mid-request.
+    token = { value: body.access_token, expiresAt: Date.now() + Math.max(0, body.expires_in - 30) * 1000 };
+    return token.value;
+  };
+
+  // Makes one request, turning every failure into an OpenSkyError.
+  const requestOnce = async (url: string): Promise<{ flights: FlightState[]; remainingCredits: number | null }> => {
+    const accessToken = isAuthenticated ? await getAccessToken() : null;
+    const headers: HeadersInit = accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers });
+    } catch {
+      throw new OpenSkyError('network', 'Could not reach the OpenSky Network.');
+    }
+
+    if (response.status === 429) {
+      const retryAfter = readNumberHeader(response, 'X-Rate-Limit-Retry-After-Seconds') ?? readNumberHeader(response, 'Retry-After') ?? 60;
+      throw new OpenSkyError('rate-limited', 'OpenSky rate limit reached.', 429, retryAfter);
+    }
+    if (response.status === 401 || response.status === 403) {
+      // The token may have been revoked; forget it so the next request logs in again.
+      token = null;
+      throw new OpenSkyError('auth', 'OpenSky refused the request. Check the API credentials.', response.status);
+    }
     if (!response.ok) {
-      throw new Error('Failed to fetch flight data from OpenSky Network.');
-    }
-    const data = await response.json();
-
-    // The API returns an array of arrays. We need to process this into a more usable format.
-    const states: FlightStateVector[] = data.states || [];
-
-    // We filter out any flights that don't have position data and map them to our FlightState object.
-    return states
-      .filter(state => state[5] != null && state[6] != null) // Ensure longitude and latitude are not null
-      .map((state: FlightStateVector) => ({
-        icao24: state[0],
-        callsign: state[1]?.trim() || 'N/A', // Clean up callsign
-        origin_country: state[2],
-        longitude: state[5],
-        latitude: state[6],
-        baro_altitude: state[7], // Altitude in meters
-        velocity: state[9], // Speed in meters/second
-        true_track: state[10], // Direction in degrees
-      }));
-  } catch (error) {
-    console.error('Error fetching OpenSky data:', error);
-    // Return an empty array if there's an error to prevent the app from crashing.
-    return [];
-  }
+      throw new OpenSkyError('http', `OpenSky returned HTTP ${response.status}.`, response.status);
+    }
+
+    let data: { states?: FlightStateVector[] | null };
+    try {
+      data = await response.json();
+    } catch {
+      throw new OpenSkyError('parse', 'OpenSky sent a response we could not read.', response.status);
+    }
+    return { flights: parseStatesResponse(data), remainingCredits: readNumberHeader(response, 'X-Rate-Limit-Remaining') };
+  };
+
+  // Makes a request, retrying network and server errors with exponential backoff and a little jitter.
+  const requestWithRetry = async (url: string) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await requestOnce(url);
+      } catch (error) {
+        const isRetryable = error instanceof OpenSkyError &&
+          (error.kind === 'network' || (error.kind === 'http' && (error.status ?? 0) >= 500));
+        if (!isRetryable || attempt >= config.maxRetries) throw error;
+        await sleep(config.baseRetryDelayMs * 2 ** attempt + Math.random() * config.baseRetryDelayMs);
+      }
+    }
+  };
+
+  // Shares a running request for the same URL instead of starting a second one.
+  const request = (url: string) => {
+    const existing = inFlight.get(url);
+    if (existing) return existing;
+    const promise = requestWithRetry(url).finally(() => inFlight.delete(url));
+    inFlight.set(url, promise);
+    return promise;
+  };
+
+  /**
+   * Fetches live flight states inside a bounding box.
+   * Large areas are clamped and areas crossing the antimeridian are fetched as two requests.
+   * @param bounds The area to fetch flights for.
+   * @returns The outcome of the request; this never throws.
+   */
+  const fetchStates = async (bounds: BoundingBox): Promise<FlightFetchResult> => {
+    try {
+      const results = await Promise.all(toRequestBounds(bounds).map(box => request(buildStatesUrl(box))));
+
+      // An aircraft right on the antimeridian can appear in both halves, so we keep one entry per icao24.
+      const byIcao = new Map(results.flatMap(result => result.flights).map(flight => [flight.icao24, flight]));
+      const flights = [...byIcao.values()];
+      const credits = results.map(result => result.remainingCredits).filter((c): c is number => c !== null);
+      const remainingCredits = credits.length > 0 ? Math.min(...credits) : null;
+      const fetchedAt = Date.now();
+
+      return flights.length > 0
+        ? { status: 'ok', flights, fetchedAt, remainingCredits }
+        : { status: 'empty', fetchedAt, remainingCredits };
+    } catch (error) {
+      if (error instanceof OpenSkyError) {
+        if (error.kind === 'rate-limited') {
+          return { status: 'rate-limited', retryAfterSeconds: error.retryAfterSeconds ?? 60 };
+        }
+        console.error('Error fetching OpenSky data:', error);
+        return { status: 'error', kind: error.kind, message: error.message };
+      }
+      console.error('Error fetching OpenSky data:', error);
+      return { status: 'error', kind: 'network', message: 'Unexpected error while fetching flight data.' };
+    }
+  };
+
+  return {
+    fetchStates,
+    get isAuthenticated() {
+      return isAuthenticated;
+    },
+  };
+}
+
+export type OpenSkyClient = ReturnType<typeof createOpenSkyClient>;
+
+// The client shared by the app, configured from the environment.
+const defaultClient = createOpenSkyClient();
+
+/**
+ * Fetches live flight states inside a bounding box from the OpenSky Network.
+ * @param bounds The area to fetch flights for.
+ * @returns A promise that resolves to the outcome of the request.
+ */
+export const fetchLiveFlights = (bounds: BoundingBox): Promise<FlightFetchResult> => defaultClient.fetchStates(bounds);
+
+// The live OpenSky feed as a data source for the tracker.
+export const openSkySource: FlightDataSource = {
+  id: 'opensky',
+  label: 'OpenSky Network (live)',
+  description: 'Live aircraft positions from the OpenSky Network.',
+  pollIntervalMs: POLL_INTERVAL_MS,
+  fetchFlights: fetchLiveFlights,
 };
@@ -0,0 +1,120 @@
+import { BoundingBox, FlightDataSource, FlightFetchResult, FlightStateVector, PlaybackState } from '../types';
+import { filterFlightsInBounds } from '../utils/bounds';
+import { parseStatesResponse } from './openskyService';
+
+// This service plays back a recording of OpenSky responses, for demos and offline development.
+
+// A recording is a JSON array of `states/all` responses, exactly as the OpenSky API returned them.
+interface RecordedResponse {
+  time: number; // seconds since epoch, as in the OpenSky response
+  states: FlightStateVector[] | null;
+}
+
+export const REPLAY_SAMPLE_URL = '/data/replay-sample.json';
+
+// How often the tracker asks a replay for new positions. Replays can be sped up, so this is much shorter than for live data.
+const REPLAY_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Creates a data source that replays a recording. The recording loads on the first request,
+ * starts playing straight away and loops when it reaches the end.
+ * @param url Where the recording JSON is served from
+ * @returns The replay data source, with playback controls
+ */
+export function createReplaySource(url: string = REPLAY_SAMPLE_URL): FlightDataSource {
+  let recording: RecordedResponse[] | null = null;
+  let loading: Promise<RecordedResponse[]> | null = null;
+
+  // The playback clock: the recording time at `anchorRealTime`, advancing at `speed` while playing.
+  let isPlaying = true;
+  let speed = 1;
+  let anchorRecordingTime = 0;
+  let anchorRealTime = Date.now();
+
+  const load = (): Promise<RecordedResponse[]> => {
+    loading ??= fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load the recording (HTTP ${response.status}).`);
+        return response.json();
+      })
+      .then((data: RecordedResponse[]) => {
+        recording = [...data].sort((a, b) => a.time - b.time);
+        anchorRecordingTime = recording.length > 0 ? recording[0].time * 1000 : 0;
+        anchorRealTime = Date.now();
+        return recording;
+      })
+      .catch(error => {
+        // Allow a later request to try again.
+        loading = null;
+        throw error;
+      });
+    return loading;
+  };
+
+  const getState = (): PlaybackState | null => {
+    if (!recording || recording.length === 0) return null;
+    const startTime = recording[0].time * 1000;
+    const endTime = recording[recording.length - 1].time * 1000;
+    const elapsed = isPlaying ? (Date.now() - anchorRealTime) * speed : 0;
+    const duration = Math.max(endTime - startTime, 1);
+    // Loop back to the start once we run past the end.
+    const currentTime = startTime + ((anchorRecordingTime - startTime + elapsed) % duration);
+    return { isPlaying, speed, currentTime, startTime, endTime };
+  };
+
+  // Moves the anchor to "now" so changing speed or pausing doesn't make the clock jump.
+  const reanchor = () => {
+    const state = getState();
+    if (state) anchorRecordingTime = state.currentTime;
+    anchorRealTime = Date.now();
+  };
+
+  const fetchFlights = async (bounds: BoundingBox): Promise<FlightFetchResult> => {
+    try {
+      const snapshots = await load();
+      const state = getState();
+      if (!state) return { status: 'empty', fetchedAt: Date.now(), remainingCredits: null };
+
+      // Show the most recent snapshot at or before the playback time.
+      let snapshot = snapshots[0];
+      for (const candidate of snapshots) {
+        if (candidate.time * 1000 > state.currentTime) break;
+        snapshot = candidate;
+      }
+
+      const flights = filterFlightsInBounds(parseStatesResponse(snapshot), bounds);
+      const fetchedAt = snapshot.time * 1000;
+      return flights.length > 0
+        ? { status: 'ok', flights, fetchedAt, remainingCredits: null }
+        : { status: 'empty', fetchedAt, remainingCredits: null };
+    } catch (error) {
+      console.error('Error loading replay recording:', error);
+      return { status: 'error', kind: 'parse', message: 'The recording could not be loaded.' };
+    }
+  };
+
+  return {
+    id: 'replay',
+    label: 'Recorded replay',
+    description: 'Plays back recorded OpenSky traffic. Works offline.',
+    pollIntervalMs: REPLAY_POLL_INTERVAL_MS,
+    fetchFlights,
+    playback: {
+      getState,
+      play: () => {
+        if (isPlaying) return;
+        anchorRealTime = Date.now();
+        isPlaying = true;
+      },
+      pause: () => {
+        if (!isPlaying) return;
+        reanchor();
+        isPlaying = false;
+      },
+      setSpeed: (newSpeed: number) => {
+        reanchor();
+        speed = newSpeed;
+      },
+    },
+  };
+}
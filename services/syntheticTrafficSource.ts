@@ -0,0 +1,106 @@
+import { BoundingBox, FlightDataSource, FlightFetchResult, FlightState } from '../types';
+import { calculateDistance } from '../utils/calculator';
+import { toRequestBounds } from '../utils/bounds';
+import { initialBearing } from '../utils/geodesic';
+
+// This service makes up plausible air traffic for any area, for tests and demos without a network.
+
+// Airline callsign prefixes and the country their aircraft are registered in.
+const AIRLINES: { prefix: string; country: string }[] = [
+  { prefix: 'RNA', country: 'Nepal' },
+  { prefix: 'BHA', country: 'Nepal' },
+  { prefix: 'YTN', country: 'Nepal' },
+  { prefix: 'AIC', country: 'India' },
+  { prefix: 'IGO', country: 'India' },
+  { prefix: 'UAE', country: 'United Arab Emirates' },
+  { prefix: 'QTR', country: 'Qatar' },
+  { prefix: 'THA', country: 'Thailand' },
+];
+
+// How often the tracker asks for new positions. Synthetic traffic is free, so we can update quickly.
+const SYNTHETIC_POLL_INTERVAL_MS = 5000;
+
+// Roughly one aircraft per this many square degrees, within the limits below.
+const SQUARE_DEGREES_PER_AIRCRAFT = 1.5;
+const MIN_AIRCRAFT = 5;
+const MAX_AIRCRAFT = 60;
+
+/**
+ * A small seeded random number generator (mulberry32), so the same area always gets the same traffic.
+ * @param seed Any 32-bit integer
+ * @returns A function returning numbers in [0, 1)
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Turns an area into a seed, so panning slightly still gives the same aircraft.
+const seedFromBounds = (bounds: BoundingBox): number =>
+  Math.round(bounds.lamin) * 73856093 ^ Math.round(bounds.lomin) * 19349663 ^
+  Math.round(bounds.lamax) * 83492791 ^ Math.round(bounds.lomax) * 2654435761;
+
+/**
+ * Generates the aircraft over an area at a moment in time. Each aircraft flies a straight line across the area
+ * over and over, climbing, descending or cruising, so positions move smoothly from one poll to the next.
+ * @param bounds A valid (non-antimeridian-crossing) bounding box
+ * @param time The moment to generate positions for (ms since epoch)
+ * @returns The synthetic flights
+ */
+export function generateSyntheticTraffic(bounds: BoundingBox, time: number): FlightState[] {
+  const random = createRandom(seedFromBounds(bounds));
+  const area = (bounds.lamax - bounds.lamin) * (bounds.lomax - bounds.lomin);
+  const count = Math.min(MAX_AIRCRAFT, Math.max(MIN_AIRCRAFT, Math.round(area / SQUARE_DEGREES_PER_AIRCRAFT)));
+  const randomPoint = () => ({
+    latitude: bounds.lamin + random() * (bounds.lamax - bounds.lamin),
+    longitude: bounds.lomin + random() * (bounds.lomax - bounds.lomin),
+  });
+
+  const flights: FlightState[] = [];
+  for (let i = 0; i < count; i++) {
+    const airline = AIRLINES[Math.floor(random() * AIRLINES.length)];
+    const icao24 = Math.floor(random() * 0xffffff).toString(16).padStart(6, '0');
+    const entry = randomPoint();
+    const exit = randomPoint();
+    const velocity = 120 + random() * 130; // m/s
+    const profile = random(); // decides whether this aircraft climbs, descends or cruises
+    const startAltitude = profile < 0.25 ? 600 : profile < 0.5 ? 9000 : 9000 + random() * 3000;
+    const endAltitude = profile < 0.25 ? 9000 : profile < 0.5 ? 600 : startAltitude;
+    const offset = random();
+
+    const distanceMeters = Math.max(calculateDistance(entry.latitude, entry.longitude, exit.latitude, exit.longitude) * 1000, 1);
+    const crossingMs = (distanceMeters / velocity) * 1000;
+    const progress = (time / crossingMs + offset) % 1;
+
+    const altitude = startAltitude + (endAltitude - startAltitude) * progress;
+    flights.push({
+      icao24,
+      callsign: `${airline.prefix}${100 + Math.floor(random() * 900)}`,
+      origin_country: airline.country,
+      latitude: entry.latitude + (exit.latitude - entry.latitude) * progress,
+      longitude: entry.longitude + (exit.longitude - entry.longitude) * progress,
+      baro_altitude: altitude,
+      geo_altitude: altitude + 50,
+      on_ground: false,
+      velocity,
+      true_track: initialBearing(entry.latitude, entry.longitude, exit.latitude, exit.longitude),
+      vertical_rate: (endAltitude - startAltitude) / (crossingMs / 1000),
+    });
+  }
+  return flights;
+}
+
+// Made-up traffic as a data source for the tracker.
+export const syntheticTrafficSource: FlightDataSource = {
+  id: 'synthetic',
+  label: 'Synthetic traffic',
+  description: 'Generated aircraft for demos and testing. Works offline.',
+  pollIntervalMs: SYNTHETIC_POLL_INTERVAL_MS,
+  fetchFlights: async (bounds: BoundingBox): Promise<FlightFetchResult> => {
+    const now = Date.now();
+    const flights = toRequestBounds(bounds).flatMap(box => generateSyntheticTraffic(box, now));
+    return { status: 'ok', flights, fetchedAt: now, remainingCredits: null };
+  },
+};
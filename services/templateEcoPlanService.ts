@@ -0,0 +1,112 @@
+import { EcoPlan, EcoPlanProvider, EcoPlanRequest, EcoPlanStreamOptions, EcoPlanTip } from '../types';
+import { getDistanceBand } from '../utils/calculator';
+import { compareTravelModes } from '../utils/modeComparison';
+import { createAbortError } from '../utils/ecoPlan';
+
+// This service writes an eco-plan from the app's own figures, with no AI and no network.
+// The same trip always gets the same plan, so it also works as a dependable fallback.
+
+// Rough shares of a flight's emissions that some choices save. Every 5 kg less luggage saves about 1-2% of
+// a passenger's share of the fuel; newer long-haul aircraft (A350, 787) burn around 15% less than those they replace.
+const PACK_LIGHT_SAVING = 0.02;
+const NEWER_AIRCRAFT_SAVING = 0.15;
+
+/**
+ * Builds an eco-plan from the trip's route, distance band and emission figures.
+ * @param request The trip to write the plan for
+ * @returns The plan
+ */
+export function buildTemplateEcoPlan({ from, to, legs, roundTrip, distance, emissions }: EcoPlanRequest): EcoPlan {
+  const directions = roundTrip ? 2 : 1;
+  const longestLeg = legs.reduce((longest, leg) => (leg.distance > longest.distance ? leg : longest), legs[0]);
+  const band = getDistanceBand(longestLeg.distance);
+  const cabin = legs[0].emissions;
+  const tips: EcoPlanTip[] = [];
+
+  // Legs that could be travelled overland, with the lowest-emission way of doing so.
+  const overland = legs.flatMap(leg => {
+    const [flight, ...surface] = compareTravelModes(leg);
+    const best = surface.filter(mode => mode.available).sort((a, b) => a.co2 - b.co2)[0];
+    return best ? [{ leg, best, saving: (flight.co2 - best.co2) * directions }] : [];
+  });
+  if (overland.length > 0) {
+    const saving = overland.reduce((sum, option) => sum + option.saving, 0);
+    tips.push({
+      title: overland.length === legs.length ? 'Go overland instead' : 'Replace some flights with the ground',
+      description: overland
+        .map(({ leg, best }) => `${leg.from.city} to ${leg.to.city} by ${best.label.toLowerCase()} is about ${Math.round(best.distance)} km and ${best.co2.toFixed(0)} kg CO₂.`)
+        .join(' '),
+      category: 'ground-transport',
+      estimatedSavingKg: Math.round(saving),
+      priority: 'high',
+    });
+  }
+
+  if (cabin.cabinMultiplier > 1) {
+    tips.push({
+      title: 'Fly economy',
+      description: `A ${cabin.cabinLabel.toLowerCase()} seat takes up ${cabin.cabinMultiplier}× the space of an economy seat, and so ${cabin.cabinMultiplier}× the fuel.`,
+      category: 'flight',
+      estimatedSavingKg: Math.round(emissions * (1 - 1 / cabin.cabinMultiplier)),
+      priority: 'high',
+    });
+  }
+
+  if (legs.length > 1) {
+    tips.push({
+      title: 'Look for a nonstop flight',
+      description: 'Every extra takeoff and climb burns a lot of fuel, and connections usually add distance too. Try the route planner to compare options.',
+      category: 'flight',
+      estimatedSavingKg: null,
+      priority: 'medium',
+    });
+  }
+
+  if (band.band === 'long') {
+    tips.push({
+      title: 'Choose a newer aircraft',
+      description: 'On long-haul routes, airlines flying the A350, 787 or A321neo burn around 15% less fuel than older jets. Many booking sites show the aircraft type.',
+      category: 'flight',
+      estimatedSavingKg: Math.round(emissions * NEWER_AIRCRAFT_SAVING),
+      priority: 'medium',
+    });
+  }
+
+  tips.push({
+    title: 'Pack light',
+    description: 'A lighter bag means less fuel. Leave heavy extras at home and bring a reusable bottle to fill after security.',
+    category: 'packing',
+    estimatedSavingKg: Math.round(emissions * PACK_LIGHT_SAVING),
+    priority: 'low',
+  });
+
+  tips.push({
+    title: `Get around ${to.city} by public transport`,
+    description: `Use trains, buses or shared shuttles from the airport and around ${to.city} instead of taxis.`,
+    category: 'ground-transport',
+    estimatedSavingKg: null,
+    priority: 'low',
+  });
+
+  return {
+    intro: `Your ${band.band}-haul ${roundTrip ? 'round trip' : 'trip'} from ${from.city} to ${to.city} covers about ${Math.round(distance).toLocaleString()} km and emits around ${emissions.toFixed(0)} kg CO₂ per passenger. Here's how to make it lighter.`,
+    tips: tips.slice(0, 5),
+    offsetSuggestion: {
+      description: 'For whatever you still fly, choose an offset certified by Gold Standard or Verra (VCS), ideally from projects that remove carbon or replace fossil fuels near where you travel.',
+      co2ToOffsetKg: Math.round(emissions),
+    },
+  };
+}
+
+// The template provider. It's always available, so the app can always show a plan.
+export const templateEcoPlanProvider: EcoPlanProvider = {
+  id: 'template',
+  label: 'EcoFly built-in tips (offline)',
+  isAvailable: async () => true,
+  generatePlan: async (request: EcoPlanRequest, { signal, onProgress }: EcoPlanStreamOptions = {}) => {
+    if (signal?.aborted) throw createAbortError();
+    const plan = buildTemplateEcoPlan(request);
+    onProgress?.(plan);
+    return plan;
+  },
+};
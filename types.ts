@@ -1,14 +1,69 @@
 
 // This file defines the "shape" of our data objects.
 
+// The airport categories used by the OurAirports dataset that we keep when importing it.
+export type AirportType = 'large_airport' | 'medium_airport' | 'small_airport';
+
+// Continent codes as used by the OurAirports dataset.
+export type Continent = 'AF' | 'AN' | 'AS' | 'EU' | 'NA' | 'OC' | 'SA';
+
 // Represents an airport with its details.
 export interface Airport {
   iata: string;
+  icao: string;
   name: string;
+  type: AirportType;
   city: string;
   country: string;
+  continent: Continent;
   latitude: number;
   longitude: number;
+  elevation: number | null; // in feet
+}
+
+// The travel classes a passenger can book. Premium cabins take up more space per seat.
+export type CabinClass = 'economy' | 'premium' | 'business' | 'first';
+
+// Flights are grouped into distance bands, each with its own emission factor.
+export type DistanceBand = 'short' | 'medium' | 'long';
+
+// The user-selectable assumptions that feed into an emission estimate.
+export interface EmissionOptions {
+  cabinClass: CabinClass;
+  includeRadiativeForcing: boolean;
+}
+
+// The full result of an emission estimate, including every assumption used to produce it.
+export interface EmissionBreakdown {
+  greatCircleDistance: number; // in km
+  detourCorrection: number; // fraction added to the great-circle distance, e.g. 0.08
+  flownDistance: number; // in km, after the detour correction
+  band: DistanceBand;
+  bandLabel: string;
+  bandFactor: number; // kg CO₂ per economy passenger-km
+  cabinClass: CabinClass;
+  cabinLabel: string;
+  cabinMultiplier: number;
+  radiativeForcingMultiplier: number; // 1 when radiative forcing is not included
+  co2: number; // kg CO₂ before the radiative forcing uplift
+  total: number; // kg CO₂ per passenger, including every multiplier
+}
+
+// A latitude/longitude rectangle, using the same field names as the OpenSky API's query parameters.
+export interface BoundingBox {
+  lamin: number; // Minimum Latitude
+  lomin: number; // Minimum Longitude
+  lamax: number; // Maximum Latitude
+  lomax: number; // Maximum Longitude
+}
+
+// A named area the live tracker can watch.
+export interface RegionPreset {
+  id: string;
+  name: string;
+  bounds: BoundingBox;
+  center: [number, number]; // [latitude, longitude]
+  zoom: number;
 }
 
 // Represents the raw data array we get for each flight from the OpenSky API.
@@ -41,6 +96,410 @@ export interface FlightState {
   longitude: number | null;
   latitude: number | null;
   baro_altitude: number | null; // in meters
+  geo_altitude: number | null; // in meters
+  on_ground: boolean;
   velocity: number | null; // in m/s
   true_track: number | null; // in degrees
+  vertical_rate: number | null; // in m/s, positive when climbing
+}
+
+// One recorded position of an aircraft, kept to draw where it has been.
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // in meters
+  timestamp: number; // ms since epoch
+}
+
+// The recent positions of one aircraft, collected across polls.
+export interface FlightTrail {
+  icao24: string;
+  callsign: string;
+  points: TrailPoint[]; // oldest first
+  lastSeen: number; // ms since epoch
+  distanceFlown: number; // km flown while tracked this session, including points already dropped from `points`
+}
+
+// Why a flight data request failed.
+export type FlightFetchErrorKind = 'network' | 'http' | 'auth' | 'parse';
+
+// The outcome of asking a flight data source for the aircraft in an area.
+// "empty" means the request worked but there are no aircraft, which the UI shows differently from a failure.
+export type FlightFetchResult =
+  | { status: 'ok'; flights: FlightState[]; fetchedAt: number; remainingCredits: number | null }
+  | { status: 'empty'; fetchedAt: number; remainingCredits: number | null }
+  | { status: 'rate-limited'; retryAfterSeconds: number }
+  | { status: 'error'; kind: FlightFetchErrorKind; message: string };
+
+// Somewhere the live tracker can get aircraft positions from.
+export interface FlightDataSource {
+  id: string;
+  label: string;
+  description: string;
+  pollIntervalMs: number; // how often the tracker should ask for new positions
+  fetchFlights: (bounds: BoundingBox) => Promise<FlightFetchResult>;
+  // Present on sources that play back recorded data, so the UI can show play/pause and speed controls.
+  playback?: PlaybackControls;
+}
+
+// Where a replay currently is.
+export interface PlaybackState {
+  isPlaying: boolean;
+  speed: number; // 1 = real time
+  currentTime: number; // ms since epoch, in the recording's time
+  startTime: number;
+  endTime: number;
+}
+
+// Play/pause/speed controls for sources that play back recorded traffic.
+export interface PlaybackControls {
+  getState: () => PlaybackState | null; // null until the recording has loaded
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: number) => void;
+}
+
+// The aircraft a data source reported at one moment, kept so the area's traffic can be replayed later.
+export interface HistorySnapshot {
+  sourceId: string; // the data source the positions came from
+  timestamp: number; // ms since epoch
+  flights: FlightState[];
+}
+
+// A user-defined group of aircraft to look out for. An aircraft is on the list if it matches any of the entries.
+export interface Watchlist {
+  id: string;
+  name: string;
+  callsignPatterns: string[]; // e.g. "RNA*", where * matches anything and ? matches one character
+  icao24s: string[];
+  countries: string[]; // origin countries, matched case-insensitively
+}
+
+// The outline of a geofence: a circle, or a polygon of [latitude, longitude] corners.
+export type GeofenceShape =
+  | { kind: 'circle'; center: [number, number]; radiusKm: number }
+  | { kind: 'polygon'; points: [number, number][] };
+
+// An area drawn on the map; aircraft entering, leaving or descending inside it raise alerts.
+export interface Geofence {
+  id: string;
+  name: string;
+  shape: GeofenceShape;
+}
+
+// The reasons the tracker can alert the user.
+export type TrackerAlertType = 'watchlist' | 'fence-enter' | 'fence-exit' | 'fence-descent';
+
+// Something the user asked to be told about, raised while polling.
+export interface TrackerAlert {
+  id: string;
+  type: TrackerAlertType;
+  icao24: string;
+  callsign: string;
+  message: string;
+  timestamp: number; // ms since epoch
+}
+
+// How the live map draws aircraft: one marker each, markers grouped into clusters, or glyphs on a single canvas.
+export type MapRenderMode = 'auto' | 'markers' | 'clustered' | 'canvas';
+
+// What an aircraft is doing, worked out from its vertical rate and ground flag.
+export type FlightPhase = 'ground' | 'climb' | 'cruise' | 'descent';
+
+// An estimate of how much fuel a tracked aircraft is burning right now.
+export interface BurnEstimate {
+  phase: FlightPhase;
+  fuelKgPerHour: number;
+  co2KgPerHour: number;
+}
+
+// The things an aircraft can be seen doing at an airport.
+export type AirportEventType = 'takeoff' | 'landing' | 'approach' | 'overflight';
+
+// Something a tracked aircraft did at an airport, worked out from consecutive positions.
+export interface AirportEvent {
+  id: string;
+  type: AirportEventType;
+  airport: Airport;
+  icao24: string;
+  callsign: string;
+  timestamp: number; // ms since epoch
+  altitude: number | null; // in meters above the airport
+}
+
+// The areas of a trip an eco-plan tip can be about.
+export type EcoTipCategory = 'flight' | 'packing' | 'ground-transport' | 'accommodation' | 'offsetting' | 'other';
+
+// How much difference a tip makes compared with the others.
+export type EcoTipPriority = 'high' | 'medium' | 'low';
+
+// One suggestion in an AI eco-plan.
+export interface EcoPlanTip {
+  title: string;
+  description: string;
+  category: EcoTipCategory;
+  estimatedSavingKg: number | null; // kg CO₂ per passenger, when the model could estimate it
+  priority: EcoTipPriority;
+}
+
+// How the traveller could offset what's left of the trip's emissions.
+export interface OffsetSuggestion {
+  description: string;
+  co2ToOffsetKg: number; // per passenger
+}
+
+// A personalised eco-friendly travel plan, as returned by the AI model.
+export interface EcoPlan {
+  intro: string;
+  tips: EcoPlanTip[];
+  offsetSuggestion: OffsetSuggestion;
+}
+
+// An eco-plan that is still being generated: whatever has arrived so far.
+export interface PartialEcoPlan {
+  intro: string;
+  tips: EcoPlanTip[];
+  offsetSuggestion: OffsetSuggestion | null;
+}
+
+// The trip an eco-plan is written for. Figures are per passenger and cover the whole trip, including any return.
+export interface EcoPlanRequest {
+  from: Airport;
+  to: Airport;
+  legs: FlightLeg[]; // the outbound legs
+  roundTrip: boolean;
+  distance: number; // great-circle km
+  emissions: number; // kg CO₂
+}
+
+// Options for following and stopping a plan while it's generated.
+export interface EcoPlanStreamOptions {
+  signal?: AbortSignal; // aborting stops the request and makes generatePlan reject with an AbortError
+  onProgress?: (plan: PartialEcoPlan) => void; // called with the plan so far each time more of it arrives
+}
+
+// Something that can write an eco-plan: an AI model, or the app's own rules.
+export interface EcoPlanProvider {
+  id: string;
+  label: string; // shown next to the plan, so the user knows where it came from
+  isAvailable: () => Promise<boolean>;
+  generatePlan: (request: EcoPlanRequest, options?: EcoPlanStreamOptions) => Promise<EcoPlan>;
+  // Answers the latest message of a follow-up conversation. Only providers backed by an AI model have this.
+  chat?: (request: EcoChatRequest, options?: { signal?: AbortSignal }) => Promise<ChatMessage>;
+}
+
+// A calculation the assistant asked the app to run during a conversation, and what it got back.
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result: unknown;
+}
+
+// One message in a follow-up conversation about an eco-plan.
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  toolCalls?: ChatToolCall[]; // the calculations the assistant ran before answering
+}
+
+// A calculation the app offers to the assistant, so its numbers match the app's own figures.
+export interface EcoTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+  run: (args: Record<string, unknown>) => unknown;
+}
+
+// Everything an AI model needs to continue a conversation about a trip.
+export interface EcoChatRequest {
+  trip: EcoPlanRequest;
+  plan: PartialEcoPlan | null; // the plan on screen, if one was generated
+  history: ChatMessage[]; // oldest first, ending with the user's new message
+  tools: EcoTool[];
+}
+
+// The assumptions and data behind a set of figures, included with every export.
+export interface Methodology {
+  title: string;
+  dataTimestamp: string; // ISO 8601, when the underlying data was calculated or received
+  items: { label: string; value: string }[];
+}
+
+// A trip made of one or more flights: an ordered list of airports flown in sequence,
+// optionally flown back in reverse, for a number of passengers.
+export interface Itinerary {
+  stops: Airport[];
+  roundTrip: boolean;
+  passengers: number;
+}
+
+// A single flight between two airports, with its own distance and emission estimate.
+export interface FlightLeg {
+  from: Airport;
+  to: Airport;
+  distance: number; // great-circle distance in km
+  emissions: EmissionBreakdown; // per passenger
+}
+
+// The result of calculating a whole itinerary.
+export interface TripResult {
+  legs: FlightLeg[];
+  roundTrip: boolean;
+  passengers: number;
+  totalDistance: number; // great-circle km flown by one passenger
+  emissionsPerPassenger: number; // kg CO₂
+  totalEmissions: number; // kg CO₂ for all passengers
+}
+
+// Why a trip was made, for grouping the trip log.
+export type TripPurpose = 'business' | 'conference' | 'fieldwork' | 'leisure' | 'family' | 'other';
+
+// A trip saved to the personal trip log, with the figures it was calculated with.
+export interface TripLogEntry {
+  id: string;
+  date: string; // the day the trip starts, as YYYY-MM-DD; a date in the future means the trip is planned
+  stops: string[]; // IATA codes of the outbound airports, in order
+  roundTrip: boolean;
+  passengers: number;
+  cabinClass: CabinClass;
+  includeRadiativeForcing: boolean;
+  distance: number; // great-circle km flown by one passenger
+  emissions: number; // kg CO₂ for all passengers
+  purpose: TripPurpose;
+  notes: string;
+}
+
+// The most CO₂ (in kg) the user wants their logged trips to emit each calendar year, keyed by year, e.g. "2026".
+export type CarbonBudgets = Record<string, number>;
+
+// How a year's logged trips add up.
+export interface TripYearSummary {
+  taken: number; // kg CO₂ of trips on or before today
+  planned: number; // kg CO₂ of trips after today
+  total: number;
+  byMonth: number[]; // kg CO₂ for January to December
+}
+
+// One row read from a CSV or Excel file, with where it is in the file.
+export interface SheetRow {
+  line: number; // the line (CSV) or row (Excel) number the row starts on, counting from 1
+  cells: string[];
+}
+
+// One row of a batch import of flights, with its result or the reasons it couldn't be calculated.
+export interface BatchTripResult {
+  line: number; // the line or row number in the file, as a spreadsheet program would show it
+  origin: string; // the codes as written in the file
+  destination: string;
+  date: string | null; // YYYY-MM-DD, or null when the row has no date
+  cabinClass: CabinClass;
+  passengers: number;
+  traveller: string; // empty when the file doesn't say
+  distance: number | null; // great-circle km, or null if the row couldn't be calculated
+  emissions: number | null; // kg CO₂ for all passengers, or null if the row couldn't be calculated
+  errors: string[]; // e.g. unresolved airport codes; rows with errors are left out of the totals
+}
+
+// The ways batch import results can be added up.
+export type BatchGrouping = 'traveller' | 'month' | 'route';
+
+// The totals of one group of batch import rows.
+export interface BatchGroupTotal {
+  key: string; // e.g. the traveller's name, "2026-03" or "KTM → DEL"
+  trips: number;
+  passengers: number; // passenger trips
+  distance: number; // great-circle km, adding each trip once
+  emissions: number; // kg CO₂
+}
+
+// A candidate way of getting between two airports, found by the route planner.
+export interface PlannedRoute {
+  stops: Airport[]; // origin, connections and destination
+  legs: FlightLeg[];
+  totalDistance: number; // great-circle km
+  emissionsPerPassenger: number; // kg CO₂
+  detourRatio: number; // total distance divided by the direct great-circle distance
+  extraEmissions: number; // kg CO₂ compared with flying the direct great-circle route
+  extraEmissionsPercent: number;
+}
+
+// The ways of travelling we compare a flight against.
+export type TravelMode = 'flight' | 'rail' | 'coach' | 'car';
+
+// The estimated footprint and journey time of one way of travelling between two places.
+export interface ModeEstimate {
+  mode: TravelMode;
+  label: string;
+  icon: string;
+  available: boolean;
+  unavailableReason?: string;
+  distance: number; // km travelled by this mode
+  co2: number; // kg CO₂ per passenger
+  travelTimeHours: number; // door-to-door estimate, including airport or station time
+}
+
+// The calculation kept in the page address, so it can be shared as a link and revisited with back and forward.
+export interface CalculatorUrlState {
+  route: string[]; // IATA codes of the stops, in order
+  roundTrip: boolean;
+  passengers: number;
+  emissionOptions: EmissionOptions;
+}
+
+// Where the live map is centred and how far it is zoomed in.
+export interface MapView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// The live tracker view kept in the page address, so it can be shared as a link.
+export interface MapUrlState {
+  regionId: string | null; // a region preset id, or "viewport"
+  view: MapView | null;
+  filter: string;
+  sort: { key: string; direction: 'ascending' | 'descending' } | null;
+  flightId: string | null; // icao24 of the selected aircraft
+}
+
+// A kind of carbon offset project, with the range of prices it sells at.
+export interface OffsetProject {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  minPricePerTonne: number; // in the catalogue's base currency, per tonne of CO₂
+  maxPricePerTonne: number;
+}
+
+// A currency prices can be shown in.
+export interface CurrencyRate {
+  code: string; // ISO 4217, e.g. "NPR"
+  rate: number; // units of this currency per unit of the catalogue's base currency
+}
+
+// A list of offset project prices, loaded from a JSON file.
+export interface OffsetCatalogue {
+  name: string;
+  updated: string; // when the prices were last checked, e.g. "2026-10-01"
+  baseCurrency: string; // the currency project prices are given in
+  currencies: CurrencyRate[];
+  projects: OffsetProject[];
+}
+
+// The prices used to put a cost on offsetting: a catalogue, and the currency the user wants to see.
+export interface OffsetPricing {
+  catalogue: OffsetCatalogue;
+  currency: string;
+}
+
+// What offsetting an amount of CO₂ with one kind of project would cost.
+export interface OffsetEstimate {
+  project: OffsetProject;
+  tonnes: number;
+  minPricePerTonne: number; // in the chosen currency
+  maxPricePerTonne: number;
+  minCost: number;
+  maxCost: number;
 }
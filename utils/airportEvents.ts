@@ -0,0 +1,143 @@
+import { Airport, AirportEvent, AirportEventType, FlightState } from '../types';
+import { calculateDistance } from './calculator';
+
+// What we remember about each aircraft between polls, to spot changes such as leaving the ground.
+export interface AircraftWatchState {
+  onGround: boolean;
+  altitude: number | null; // in meters above sea level
+  lastSeen: number; // ms since epoch
+  reported: string[]; // "type:IATA" keys already reported, so an approach isn't announced on every poll
+}
+
+// The per-aircraft state of the detector, keyed by icao24.
+export type AirportWatchStore = Map<string, AircraftWatchState>;
+
+// The distances and heights used to decide what an aircraft is doing near an airport.
+export interface AirportEventOptions {
+  runwayRadiusKm: number; // takeoffs and landings must happen this close to the airport
+  approachRadiusKm: number; // a descending aircraft this close is on approach
+  approachMaxHeight: number; // m above the airport; higher aircraft are only passing by
+  overflightRadiusKm: number; // a level or climbing aircraft this close is flying over
+  landedMaxHeight: number; // m above the airport; lower and slow means on the runway, for feeds without a ground flag
+  landedMaxSpeed: number; // m/s
+  descentRate: number; // m/s; sinking faster than this counts as descending
+  staleAfterMs: number; // aircraft not seen for this long are forgotten
+}
+
+export const DEFAULT_AIRPORT_EVENT_OPTIONS: AirportEventOptions = {
+  runwayRadiusKm: 8,
+  approachRadiusKm: 40,
+  approachMaxHeight: 3000,
+  overflightRadiusKm: 15,
+  landedMaxHeight: 60,
+  landedMaxSpeed: 50,
+  descentRate: 1,
+  staleAfterMs: 15 * 60 * 1000,
+};
+
+const FEET_TO_METERS = 0.3048;
+
+/**
+ * Finds the airport closest to a position.
+ * @param latitude The position's latitude
+ * @param longitude The position's longitude
+ * @param airports The airports to consider
+ * @returns The nearest airport and its distance in km, or null if there are no airports
+ */
+export function findNearestAirport(
+  latitude: number,
+  longitude: number,
+  airports: Airport[]
+): { airport: Airport; distance: number } | null {
+  let nearest: { airport: Airport; distance: number } | null = null;
+  for (const airport of airports) {
+    const distance = calculateDistance(latitude, longitude, airport.latitude, airport.longitude);
+    if (!nearest || distance < nearest.distance) nearest = { airport, distance };
+  }
+  return nearest;
+}
+
+/**
+ * Compares each aircraft with what it was doing at the previous poll and reports takeoffs, landings,
+ * approaches and overflights at the nearest airport. The store is not modified; a new one is returned.
+ * @param store What each aircraft was doing at the previous poll
+ * @param flights The flights from the latest poll
+ * @param airports The airports to watch
+ * @param timestamp When the flights were received (ms since epoch)
+ * @param options Distances and heights for the detection rules
+ * @returns The updated store, and the events detected in this poll
+ */
+export function detectAirportEvents(
+  store: AirportWatchStore,
+  flights: FlightState[],
+  airports: Airport[],
+  timestamp: number,
+  options: AirportEventOptions = DEFAULT_AIRPORT_EVENT_OPTIONS
+): { store: AirportWatchStore; events: AirportEvent[] } {
+  const next: AirportWatchStore = new Map();
+  const events: AirportEvent[] = [];
+
+  for (const flight of flights) {
+    if (flight.latitude === null || flight.longitude === null) continue;
+    const previous = store.get(flight.icao24);
+    const altitude = flight.baro_altitude ?? flight.geo_altitude;
+    const nearest = findNearestAirport(flight.latitude, flight.longitude, airports);
+
+    // Forget events at airports the aircraft has since left, so a second approach is reported again.
+    const reported = (previous?.reported ?? []).filter(key => {
+      const iata = key.split(':')[1];
+      return nearest !== null && nearest.airport.iata === iata && nearest.distance <= options.approachRadiusKm;
+    });
+
+    if (nearest) {
+      const { airport, distance } = nearest;
+      const height = altitude === null ? null : altitude - (airport.elevation ?? 0) * FEET_TO_METERS;
+      const onGround = flight.on_ground || (
+        height !== null && height <= options.landedMaxHeight &&
+        flight.velocity !== null && flight.velocity <= options.landedMaxSpeed
+      );
+      const climbing = (flight.vertical_rate ?? 0) > options.descentRate ||
+        (previous?.altitude != null && altitude !== null && altitude > previous.altitude);
+      const descending = (flight.vertical_rate ?? 0) < -options.descentRate ||
+        (previous?.altitude != null && altitude !== null && altitude < previous.altitude);
+
+      const report = (type: AirportEventType) => {
+        const key = `${type}:${airport.iata}`;
+        if (reported.includes(key)) return;
+        reported.push(key);
+        events.push({
+          id: `${flight.icao24}-${type}-${airport.iata}-${timestamp}`,
+          type,
+          airport,
+          icao24: flight.icao24,
+          callsign: flight.callsign,
+          timestamp,
+          altitude: height,
+        });
+      };
+
+      if (previous && distance <= options.runwayRadiusKm && previous.onGround && !onGround && climbing) {
+        report('takeoff');
+      } else if (previous && distance <= options.runwayRadiusKm && !previous.onGround && onGround) {
+        report('landing');
+      } else if (!onGround && descending && distance <= options.approachRadiusKm && height !== null && height <= options.approachMaxHeight) {
+        report('approach');
+      } else if (!onGround && !descending && distance <= options.overflightRadiusKm && height !== null && height > options.approachMaxHeight) {
+        report('overflight');
+      }
+
+      next.set(flight.icao24, { onGround, altitude, lastSeen: timestamp, reported });
+    } else {
+      next.set(flight.icao24, { onGround: flight.on_ground, altitude, lastSeen: timestamp, reported });
+    }
+  }
+
+  // Keep aircraft that missed this poll for a while, in case they reappear.
+  for (const [icao24, state] of store) {
+    if (!next.has(icao24) && timestamp - state.lastSeen <= options.staleAfterMs) {
+      next.set(icao24, state);
+    }
+  }
+
+  return { store: next, events };
+}
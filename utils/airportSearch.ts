@@ -0,0 +1,257 @@
+import { Airport, AirportType } from '../types';
+
+// Which part of an airport a search token matched. Lower ranks are shown first.
+const FIELD_RANK = {
+  exactIata: 0,
+  city: 1,
+  name: 2,
+  code: 3, // IATA prefix or ICAO code
+  country: 4,
+} as const;
+
+// Typo-tolerant matches are ranked after every exact match.
+const FUZZY_PENALTY = 10;
+
+// Query words shorter than this are too ambiguous to correct, so they only match exactly.
+const MIN_FUZZY_LENGTH = 3;
+
+type MatchField = keyof typeof FIELD_RANK;
+
+// Bigger airports are shown before smaller ones with an equally good match.
+const TYPE_RANK: Record<AirportType, number> = { large_airport: 0, medium_airport: 1, small_airport: 2 };
+
+// One searchable word pointing back to the airport it came from.
+interface IndexEntry {
+  token: string;
+  airportIndex: number;
+  field: Exclude<MatchField, 'exactIata'>;
+}
+
+// A distinct word in the index and the range of entries that hold it.
+interface IndexToken {
+  token: string;
+  start: number;
+  end: number;
+}
+
+// A prebuilt search index: every searchable word of every airport, sorted alphabetically,
+// so that all words starting with a prefix can be found with a binary search.
+export interface AirportIndex {
+  airports: Airport[];
+  entries: IndexEntry[];
+  tokens: IndexToken[]; // distinct words, used for typo-tolerant matching
+  byIata: Map<string, Airport>;
+}
+
+/**
+ * Lower-cases text, strips accents (so "Malé" matches "male") and splits it into words.
+ * @param text The text to split
+ * @returns The normalised words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Builds the search index for a list of airports. This is done once, when the dataset loads.
+ * @param airports The airports to index
+ * @returns The search index
+ */
+export function buildAirportIndex(airports: Airport[]): AirportIndex {
+  const entries: IndexEntry[] = [];
+
+  airports.forEach((airport, airportIndex) => {
+    const add = (text: string, field: IndexEntry['field']) => {
+      for (const token of tokenize(text)) entries.push({ token, airportIndex, field });
+    };
+    add(airport.iata, 'code');
+    add(airport.icao, 'code');
+    add(airport.city, 'city');
+    add(airport.name, 'name');
+    add(airport.country, 'country');
+  });
+
+  entries.sort((a, b) => (a.token < b.token ? -1 : a.token > b.token ? 1 : 0));
+
+  const tokens: IndexToken[] = [];
+  entries.forEach((entry, i) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.token === entry.token) last.end = i + 1;
+    else tokens.push({ token: entry.token, start: i, end: i + 1 });
+  });
+
+  const byIata = new Map(airports.map(airport => [airport.iata, airport]));
+  return { airports, entries, tokens, byIata };
+}
+
+/**
+ * Looks up an airport by its IATA code.
+ * @param index The search index
+ * @param iata The three-letter code, in any case
+ * @returns The airport, or undefined if the code isn't in the dataset
+ */
+export function findAirportByIata(index: AirportIndex, iata: string): Airport | undefined {
+  return index.byIata.get(iata.trim().toUpperCase());
+}
+
+/**
+ * Counts the edits (insertions, deletions, substitutions and swaps of neighbouring letters)
+ * needed to turn one word into another, giving up once the count exceeds `max`.
+ * This is the optimal string alignment variant of the Damerau-Levenshtein distance.
+ * @param a The first word
+ * @param b The second word
+ * @param max The largest distance we care about
+ * @returns The edit distance, or max + 1 if it is larger than max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How many typos we forgive in a query word of the given length.
+const allowedTypos = (length: number): number => (length < 5 ? 1 : 2);
+
+// Finds the position of the first entry whose token is >= the given prefix.
+const lowerBound = (entries: IndexEntry[], prefix: string): number => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].token < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Finds every airport with a word starting with the given prefix, along with its best matching field.
+ * @param index The search index
+ * @param prefix A single normalised query word
+ * @returns A map from airport position to the rank of its best matching field
+ */
+function matchPrefix(index: AirportIndex, prefix: string): Map<number, number> {
+  const matches = new Map<number, number>();
+  for (let i = lowerBound(index.entries, prefix); i < index.entries.length; i++) {
+    const entry = index.entries[i];
+    if (!entry.token.startsWith(prefix)) break;
+    const rank = FIELD_RANK[entry.field];
+    const best = matches.get(entry.airportIndex);
+    if (best === undefined || rank < best) matches.set(entry.airportIndex, rank);
+  }
+  return matches;
+}
+
+/**
+ * Finds every airport with a word that is within a couple of typos of the given query word.
+ * The query may be a partial word, so it is also compared with the start of longer words.
+ * @param index The search index
+ * @param queryToken A single normalised query word
+ * @returns A map from airport position to the (penalised) rank of its best matching field
+ */
+function matchFuzzy(index: AirportIndex, queryToken: string): Map<number, number> {
+  const matches = new Map<number, number>();
+  if (queryToken.length < MIN_FUZZY_LENGTH) return matches;
+  const max = allowedTypos(queryToken.length);
+
+  for (const { token, start, end } of index.tokens) {
+    const distance = Math.min(
+      editDistance(queryToken, token, max),
+      editDistance(queryToken, token.slice(0, queryToken.length), max)
+    );
+    if (distance > max) continue;
+    for (let i = start; i < end; i++) {
+      const entry = index.entries[i];
+      const rank = FIELD_RANK[entry.field] + FUZZY_PENALTY;
+      const best = matches.get(entry.airportIndex);
+      if (best === undefined || rank < best) matches.set(entry.airportIndex, rank);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Searches the airport index. Every word of the query must match the start of a word of the airport.
+ * Results are ranked: exact IATA code first, then city matches, then name matches, then everything else,
+ * with bigger airports first within each group.
+ * If there are fewer exact matches than `limit`, typo-tolerant matches (e.g. "Katmandu") are added after them.
+ * @param index The search index
+ * @param query What the user typed
+ * @param limit The maximum number of results
+ * @returns The best matching airports
+ */
+export function searchAirports(index: AirportIndex, query: string, limit: number = 10): Airport[] {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  const exact = rankMatches(index, queryTokens, false);
+  if (exact.length >= limit) return exact.slice(0, limit);
+  return rankMatches(index, queryTokens, true).slice(0, limit);
+}
+
+/**
+ * Matches every query word against the index and ranks the airports that match all of them.
+ * @param index The search index
+ * @param queryTokens The normalised query words
+ * @param fuzzy Whether to also accept words with typos
+ * @returns The matching airports, best first
+ */
+function rankMatches(index: AirportIndex, queryTokens: string[], fuzzy: boolean): Airport[] {
+  // Intersect the matches of every query word, keeping the best field rank seen for each airport.
+  let candidates: Map<number, number> | null = null;
+  for (const token of queryTokens) {
+    const matches = matchPrefix(index, token);
+    if (fuzzy) {
+      for (const [airportIndex, rank] of matchFuzzy(index, token)) {
+        if (!matches.has(airportIndex)) matches.set(airportIndex, rank);
+      }
+    }
+    if (candidates === null) {
+      candidates = matches;
+      continue;
+    }
+    const intersection = new Map<number, number>();
+    for (const [airportIndex, rank] of matches) {
+      const previous = candidates.get(airportIndex);
+      if (previous !== undefined) intersection.set(airportIndex, Math.min(previous, rank));
+    }
+    candidates = intersection;
+  }
+
+  const exactIata = queryTokens.length === 1 ? queryTokens[0].toUpperCase() : null;
+  const ranked = [...(candidates ?? new Map<number, number>())].map(([airportIndex, rank]) => {
+    const airport = index.airports[airportIndex];
+    return { airport, rank: airport.iata === exactIata ? FIELD_RANK.exactIata : rank };
+  });
+
+  ranked.sort((a, b) =>
+    a.rank - b.rank ||
+    TYPE_RANK[a.airport.type] - TYPE_RANK[b.airport.type] ||
+    a.airport.name.localeCompare(b.airport.name)
+  );
+
+  return ranked.map(result => result.airport);
+}
@@ -0,0 +1,181 @@
+import { BatchGroupTotal, BatchGrouping, BatchTripResult, CabinClass, EmissionOptions, SheetRow } from '../types';
+import { AirportIndex, findAirportByIata } from './airportSearch';
+import { calculateDistance, calculateEmissions } from './calculator';
+import { parseCsvRows } from './csv';
+import { readXlsxRows } from './xlsx';
+
+// Helpers for calculating a whole spreadsheet of flights at once, e.g. a quarterly travel report.
+
+// The fields a batch file can have, and the column names we recognise for each (compared without case, spaces or punctuation).
+type BatchField = 'origin' | 'destination' | 'date' | 'cabin' | 'passengers' | 'traveller';
+const COLUMN_ALIASES: Record<BatchField, string[]> = {
+  origin: ['origin', 'from', 'departure', 'departureairport', 'fromiata', 'originiata'],
+  destination: ['destination', 'to', 'arrival', 'arrivalairport', 'toiata', 'destinationiata'],
+  date: ['date', 'traveldate', 'departuredate', 'flightdate'],
+  cabin: ['cabin', 'cabinclass', 'class', 'travelclass'],
+  passengers: ['passengers', 'pax', 'travellers', 'travelers', 'seats'],
+  traveller: ['traveller', 'traveler', 'name', 'employee', 'passenger', 'person'],
+};
+
+// Ways people write each cabin class in travel reports, including the usual fare class letters.
+const CABIN_ALIASES: Record<string, CabinClass> = {
+  economy: 'economy', eco: 'economy', coach: 'economy', y: 'economy',
+  premium: 'premium', premiumeconomy: 'premium', w: 'premium',
+  business: 'business', j: 'business', c: 'business',
+  first: 'first', f: 'first',
+};
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Reads a batch file into rows of text. Files ending in .xlsx are read as Excel spreadsheets, anything else as CSV.
+ * @param file The file the user picked
+ * @returns The rows with their line numbers, starting with the header
+ */
+export async function readBatchFile(file: File): Promise<SheetRow[]> {
+  return file.name.toLowerCase().endsWith('.xlsx') ? readXlsxRows(await file.arrayBuffer()) : parseCsvRows(await file.text());
+}
+
+/**
+ * Reads a cabin class as written in a travel report, e.g. "Business" or "J".
+ * @param text The cell text
+ * @returns The cabin class, or null if it isn't one we recognise
+ */
+export function parseCabinClass(text: string): CabinClass | null {
+  return CABIN_ALIASES[normalize(text)] ?? null;
+}
+
+/**
+ * Reads a date as written in a travel report: YYYY-MM-DD, day-first DD/MM/YYYY (or with dots or dashes),
+ * or an Excel day number, which is how spreadsheets store dates.
+ * @param text The cell text
+ * @returns The date as YYYY-MM-DD, or null if it can't be read
+ */
+export function parseBatchDate(text: string): string | null {
+  const value = text.trim();
+  let year: number, month: number, day: number;
+
+  let match: RegExpMatchArray | null;
+  if ((match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (/^\d{5}(\.\d+)?$/.test(value)) {
+    // Excel counts days from 30 December 1899.
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(value)) * 86_400_000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    return null;
+  }
+
+  // Reject dates like 31/02/2026.
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Calculates every flight in a batch file. Each row is checked on its own, so one bad row doesn't stop the others.
+ * @param rows The file's rows with their line numbers, starting with the header
+ * @param index The airport search index, to resolve the codes
+ * @param options The cabin class used when a row doesn't give one, and the radiative forcing setting
+ * @returns One result per data row, or the required columns the header is missing
+ */
+export function calculateBatch(
+  rows: SheetRow[],
+  index: AirportIndex,
+  options: EmissionOptions
+): { results: BatchTripResult[]; missingColumns: string[] } {
+  const [header, ...dataRows] = rows;
+  const normalizedHeader = (header?.cells ?? []).map(normalize);
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as BatchField[]).map(field => [
+      field,
+      normalizedHeader.findIndex(name => COLUMN_ALIASES[field].includes(name)),
+    ])
+  ) as Record<BatchField, number>;
+
+  const missingColumns = (['origin', 'destination'] as const).filter(field => columns[field] < 0);
+  if (missingColumns.length > 0) return { results: [], missingColumns };
+
+  const cell = (row: string[], field: BatchField): string => (columns[field] >= 0 ? (row[columns[field]] ?? '').trim() : '');
+
+  const results = dataRows.map(({ line, cells: row }): BatchTripResult => {
+    const errors: string[] = [];
+    const origin = cell(row, 'origin').toUpperCase();
+    const destination = cell(row, 'destination').toUpperCase();
+
+    const from = findAirportByIata(index, origin);
+    const to = findAirportByIata(index, destination);
+    if (!from) errors.push(origin ? `Unknown origin airport "${origin}"` : 'Missing origin airport');
+    if (!to) errors.push(destination ? `Unknown destination airport "${destination}"` : 'Missing destination airport');
+    if (from && to && from.iata === to.iata) errors.push('Origin and destination are the same airport');
+
+    const dateText = cell(row, 'date');
+    const date = dateText ? parseBatchDate(dateText) : null;
+    if (dateText && !date) errors.push(`Unreadable date "${dateText}"`);
+
+    const cabinText = cell(row, 'cabin');
+    const cabinClass = cabinText ? parseCabinClass(cabinText) : options.cabinClass;
+    if (!cabinClass) errors.push(`Unknown cabin class "${cabinText}"`);
+
+    const passengersText = cell(row, 'passengers');
+    const passengers = passengersText ? Number(passengersText) : 1;
+    if (!Number.isInteger(passengers) || passengers < 1) errors.push(`Invalid passenger count "${passengersText}"`);
+
+    let distance: number | null = null;
+    let emissions: number | null = null;
+    if (errors.length === 0 && from && to && cabinClass) {
+      distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+      emissions = calculateEmissions(distance, { ...options, cabinClass }).total * passengers;
+    }
+
+    return {
+      line,
+      origin,
+      destination,
+      date,
+      cabinClass: cabinClass ?? options.cabinClass,
+      passengers: Number.isFinite(passengers) ? passengers : 1,
+      traveller: cell(row, 'traveller'),
+      distance,
+      emissions,
+      errors,
+    };
+  });
+
+  return { results, missingColumns: [] };
+}
+
+// The key of the group a row belongs to.
+const GROUP_KEYS: Record<BatchGrouping, (result: BatchTripResult) => string> = {
+  traveller: result => result.traveller || 'Unassigned',
+  month: result => result.date?.slice(0, 7) ?? 'Undated',
+  route: result => `${result.origin} → ${result.destination}`,
+};
+
+/**
+ * Adds up the calculated rows of a batch import by traveller, month or route.
+ * Months are listed in order; travellers and routes are listed with the highest emissions first.
+ * @param results The batch import results; rows with errors are skipped
+ * @param grouping What to group the rows by
+ * @returns The totals for each group
+ */
+export function groupBatchResults(results: BatchTripResult[], grouping: BatchGrouping): BatchGroupTotal[] {
+  const groups = new Map<string, BatchGroupTotal>();
+  for (const result of results) {
+    if (result.distance === null || result.emissions === null) continue;
+    const key = GROUP_KEYS[grouping](result);
+    const group = groups.get(key) ?? { key, trips: 0, passengers: 0, distance: 0, emissions: 0 };
+    group.trips += 1;
+    group.passengers += result.passengers;
+    group.distance += result.distance;
+    group.emissions += result.emissions;
+    groups.set(key, group);
+  }
+
+  const totals = [...groups.values()];
+  return grouping === 'month'
+    ? totals.sort((a, b) => a.key.localeCompare(b.key))
+    : totals.sort((a, b) => b.emissions - a.emissions);
+}
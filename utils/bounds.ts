@@ -0,0 +1,85 @@
+import { BoundingBox, FlightState } from '../types';
+import { MAX_BOUNDS_AREA } from '../constants';
+
+/**
+ * Calculates the size of a bounding box in square degrees (the unit OpenSky uses to price requests).
+ * @param bounds The bounding box
+ * @returns The area in square degrees
+ */
+export function boundsArea(bounds: BoundingBox): number {
+  return (bounds.lamax - bounds.lamin) * (bounds.lomax - bounds.lomin);
+}
+
+/**
+ * Shrinks a bounding box around its centre, keeping its shape, until it is no bigger than `maxArea`.
+ * @param bounds The bounding box (longitudes may run past ±180)
+ * @param maxArea The largest allowed area in square degrees
+ * @returns The original box if it was small enough, otherwise the shrunken box
+ */
+export function clampBoundsArea(bounds: BoundingBox, maxArea: number = MAX_BOUNDS_AREA): BoundingBox {
+  const area = boundsArea(bounds);
+  if (area <= maxArea) return bounds;
+
+  const scale = Math.sqrt(maxArea / area);
+  const centerLat = (bounds.lamin + bounds.lamax) / 2;
+  const centerLon = (bounds.lomin + bounds.lomax) / 2;
+  const halfLat = ((bounds.lamax - bounds.lamin) * scale) / 2;
+  const halfLon = ((bounds.lomax - bounds.lomin) * scale) / 2;
+  return {
+    lamin: centerLat - halfLat,
+    lomin: centerLon - halfLon,
+    lamax: centerLat + halfLat,
+    lomax: centerLon + halfLon,
+  };
+}
+
+// Wraps a longitude into the range [-180, 180).
+const wrapLongitude = (lon: number): number => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Turns an arbitrary map area into bounding boxes the OpenSky API accepts.
+ * The box is clamped to the maximum area and to valid latitudes, and a box that crosses the
+ * antimeridian (e.g. a map panned over the Pacific) is split into one box on each side of it.
+ * @param bounds The requested area; longitudes may run past ±180, as Leaflet reports them
+ * @returns One or two valid bounding boxes covering the (clamped) area
+ */
+export function toRequestBounds(bounds: BoundingBox): BoundingBox[] {
+  const clamped = clampBoundsArea(bounds);
+  const lamin = Math.max(-90, clamped.lamin);
+  const lamax = Math.min(90, clamped.lamax);
+
+  if (clamped.lomax - clamped.lomin >= 360) {
+    return [{ lamin, lomin: -180, lamax, lomax: 180 }];
+  }
+
+  const lomin = wrapLongitude(clamped.lomin);
+  // A box whose east edge is exactly on the antimeridian ends at 180, not -180. Wrapping it to -180 would split off
+  // an empty box on the other side, and every extra box is an extra OpenSky request.
+  const wrappedLomax = wrapLongitude(clamped.lomax);
+  const lomax = wrappedLomax === -180 && clamped.lomax > clamped.lomin ? 180 : wrappedLomax;
+  if (lomin <= lomax) {
+    return [{ lamin, lomin, lamax, lomax }];
+  }
+  return [
+    { lamin, lomin, lamax, lomax: 180 },
+    { lamin, lomin: -180, lamax, lomax },
+  ];
+}
+
+/**
+ * Keeps only the flights inside an area, the same way the OpenSky API filters them.
+ * Used by data sources that return every aircraft they know about (replays, local receivers).
+ * @param flights The flights to filter
+ * @param bounds The area; longitudes may run past ±180, as Leaflet reports them
+ * @returns The flights with a position inside the area
+ */
+export function filterFlightsInBounds(flights: FlightState[], bounds: BoundingBox): FlightState[] {
+  const boxes = toRequestBounds(bounds);
+  return flights.filter(flight =>
+    flight.latitude !== null && flight.longitude !== null &&
+    boxes.some(box =>
+      flight.latitude! >= box.lamin && flight.latitude! <= box.lamax &&
+      flight.longitude! >= box.lomin && flight.longitude! <= box.lomax
+    )
+  );
+}
@@ -1,5 +1,12 @@
 
-import { EMISSION_FACTOR } from '../constants';
+import { CABIN_CLASSES, DETOUR_CORRECTION, DISTANCE_BANDS, RADIATIVE_FORCING_INDEX } from '../constants';
+import { EmissionBreakdown, EmissionOptions } from '../types';
+
+// The assumptions used when the caller doesn't pass any.
+export const DEFAULT_EMISSION_OPTIONS: EmissionOptions = {
+  cabinClass: 'economy',
+  includeRadiativeForcing: false,
+};
 
 /**
  * Calculates the great-circle distance between two points on the earth (specified in decimal degrees).
@@ -33,10 +40,43 @@ function deg2rad(deg: number): number {
 }
 
 /**
- * Calculates the estimated CO2 emissions for a given distance.
+ * Finds the distance band (and its emission factor) that a flight of the given length falls into.
  * @param distance The flight distance in kilometers
- * @returns The estimated CO2 emissions in kilograms
+ * @returns The matching entry from DISTANCE_BANDS
  */
-export function calculateEmissions(distance: number): number {
-  return distance * EMISSION_FACTOR;
+export function getDistanceBand(distance: number) {
+  return DISTANCE_BANDS.find(band => distance < band.maxDistance) ?? DISTANCE_BANDS[DISTANCE_BANDS.length - 1];
+}
+
+/**
+ * Calculates the estimated CO2 emissions for a given great-circle distance.
+ * The distance is first corrected for routing detours, then multiplied by the factor of its
+ * distance band, the cabin class multiplier and (optionally) the radiative forcing index.
+ * @param distance The great-circle flight distance in kilometers
+ * @param options The cabin class and radiative forcing settings
+ * @returns A breakdown of the estimate, with `total` in kilograms of CO2 per passenger
+ */
+export function calculateEmissions(distance: number, options: EmissionOptions = DEFAULT_EMISSION_OPTIONS): EmissionBreakdown {
+  const flownDistance = distance * (1 + DETOUR_CORRECTION);
+  // The band is picked on the great-circle distance so that the detour correction can't push a flight into another band.
+  const band = getDistanceBand(distance);
+  const cabin = CABIN_CLASSES.find(c => c.cabinClass === options.cabinClass) ?? CABIN_CLASSES[0];
+  const radiativeForcingMultiplier = options.includeRadiativeForcing ? RADIATIVE_FORCING_INDEX : 1;
+
+  const co2 = flownDistance * band.factor * cabin.multiplier;
+
+  return {
+    greatCircleDistance: distance,
+    detourCorrection: DETOUR_CORRECTION,
+    flownDistance,
+    band: band.band,
+    bandLabel: band.label,
+    bandFactor: band.factor,
+    cabinClass: cabin.cabinClass,
+    cabinLabel: cabin.label,
+    cabinMultiplier: cabin.multiplier,
+    radiativeForcingMultiplier,
+    co2,
+    total: co2 * radiativeForcingMultiplier,
+  };
 }
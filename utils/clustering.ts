@@ -0,0 +1,57 @@
+import { FlightState } from '../types';
+
+// Groups nearby aircraft so thousands of them can be shown at low zoom as a few counted bubbles.
+
+// A group of aircraft that are close together on screen at the current zoom.
+export interface FlightCluster {
+  id: string;
+  latitude: number; // the average position of the aircraft in the cluster
+  longitude: number;
+  flights: FlightState[];
+}
+
+// Leaflet's map tiles are 256 pixels wide, and the whole world is one tile at zoom 0.
+const TILE_SIZE = 256;
+
+/**
+ * Converts a position to Web Mercator pixel coordinates, the same projection the map uses.
+ * @param latitude The latitude
+ * @param longitude The longitude
+ * @param zoom The map zoom level
+ * @returns The x and y pixel position on the whole-world map at that zoom
+ */
+export function projectToPixels(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((Math.max(-85, Math.min(85, latitude)) * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/**
+ * Groups aircraft that fall in the same square of a screen-space grid. Zooming in makes each square cover
+ * less of the world, so clusters split apart until every aircraft stands on its own.
+ * @param flights The aircraft to group
+ * @param zoom The map zoom level
+ * @param cellSizePx The width of each grid square on screen, in pixels
+ * @returns The clusters, including clusters of a single aircraft
+ */
+export function clusterFlights(flights: FlightState[], zoom: number, cellSizePx: number = 60): FlightCluster[] {
+  const cells = new Map<string, FlightState[]>();
+  for (const flight of flights) {
+    if (flight.latitude === null || flight.longitude === null) continue;
+    const { x, y } = projectToPixels(flight.latitude, flight.longitude, zoom);
+    const key = `${Math.floor(x / cellSizePx)}:${Math.floor(y / cellSizePx)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(flight);
+    else cells.set(key, [flight]);
+  }
+
+  return [...cells.entries()].map(([key, members]) => ({
+    id: `${zoom}:${key}`,
+    latitude: members.reduce((sum, flight) => sum + flight.latitude!, 0) / members.length,
+    longitude: members.reduce((sum, flight) => sum + flight.longitude!, 0) / members.length,
+    flights: members,
+  }));
+}
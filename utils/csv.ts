@@ -0,0 +1,106 @@
+import { SheetRow } from '../types';
+
+/**
+ * Parses CSV text into rows of fields, remembering the line each row starts on.
+ * Supports quoted fields (including commas, line breaks and doubled quotes inside them)
+ * and both LF and CRLF line endings, as described in RFC 4180.
+ * Blank lines are skipped, so the line numbers are the only way to find a row in the original file.
+ * @param text The raw CSV text
+ * @returns An array of rows, each with its line number (counting from 1) and field values
+ */
+export function parseCsvRows(text: string): SheetRow[] {
+  const rows: SheetRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1; // the line we are reading
+  let rowLine = 1; // the line the current row started on
+
+  const endRow = () => {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    // Count line breaks everywhere, including inside quoted fields, so later rows keep their real line numbers.
+    if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+
+    if (inQuotes) {
+      if (char === '"') {
+        // A doubled quote inside a quoted field is an escaped quote character.
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  // The last line may not end with a line break.
+  if (field !== '' || row.length > 0) endRow();
+
+  // Skip blank lines (e.g. a trailing newline at the end of the file).
+  return rows.filter(r => r.cells.length > 1 || r.cells[0] !== '');
+}
+
+/**
+ * Parses CSV text into rows of fields.
+ * Supports quoted fields (including commas, line breaks and doubled quotes inside them)
+ * and both LF and CRLF line endings, as described in RFC 4180.
+ * @param text The raw CSV text
+ * @returns An array of rows, each an array of field values
+ */
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map(row => row.cells);
+}
+
+/**
+ * Parses CSV text whose first row is a header into objects keyed by column name.
+ * Column names are trimmed; missing trailing fields become empty strings.
+ * @param text The raw CSV text
+ * @returns One record per data row
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(column => column.trim());
+  return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+}
+
+/**
+ * Turns rows of values into CSV text, quoting fields that contain commas, quotes or line breaks.
+ * Empty values (null or undefined) become empty fields.
+ * @param rows The rows, each an array of field values
+ * @returns The CSV text, with CRLF line endings as described in RFC 4180
+ */
+export function formatCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  const formatField = (value: string | number | boolean | null | undefined): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
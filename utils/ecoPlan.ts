@@ -0,0 +1,113 @@
+import { EcoPlan, EcoPlanTip, EcoTipCategory, EcoTipPriority, PartialEcoPlan } from '../types';
+import { parsePartialJson } from './partialJson';
+
+// Checks that an AI model's answer really has the shape of an eco-plan before we show it.
+// Models usually follow the schema they're given, but not always, so nothing is trusted blindly.
+
+export const ECO_TIP_CATEGORIES: EcoTipCategory[] = ['flight', 'packing', 'ground-transport', 'accommodation', 'offsetting', 'other'];
+export const ECO_TIP_PRIORITIES: EcoTipPriority[] = ['high', 'medium', 'low'];
+
+// The error thrown when a model's answer isn't a usable eco-plan.
+export class EcoPlanFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EcoPlanFormatError';
+  }
+}
+
+// The error eco-plan providers reject with when they are cancelled, matching what fetch does.
+export const createAbortError = () => new DOMException('The eco-plan generation was cancelled.', 'AbortError');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new EcoPlanFormatError(`The eco-plan is missing "${field}".`);
+  }
+  return value.trim();
+};
+
+// Reads one tip. Unknown categories and priorities are mapped to safe defaults rather than rejected.
+const parseTip = (value: unknown, index: number): EcoPlanTip => {
+  if (!isObject(value)) throw new EcoPlanFormatError(`Tip ${index + 1} of the eco-plan is not an object.`);
+  const saving = value.estimatedSavingKg;
+  return {
+    title: requireText(value.title, `tips[${index}].title`),
+    description: requireText(value.description, `tips[${index}].description`),
+    category: ECO_TIP_CATEGORIES.includes(value.category as EcoTipCategory) ? value.category as EcoTipCategory : 'other',
+    estimatedSavingKg: typeof saving === 'number' && Number.isFinite(saving) && saving >= 0 ? saving : null,
+    priority: ECO_TIP_PRIORITIES.includes(value.priority as EcoTipPriority) ? value.priority as EcoTipPriority : 'medium',
+  };
+};
+
+/**
+ * Validates a model's answer and turns it into an EcoPlan.
+ * @param data The parsed JSON answer
+ * @returns The eco-plan, with tips sorted from highest to lowest priority
+ * @throws EcoPlanFormatError if a required part is missing or has the wrong type
+ */
+export function parseEcoPlan(data: unknown): EcoPlan {
+  if (!isObject(data)) throw new EcoPlanFormatError('The eco-plan is not a JSON object.');
+  if (!Array.isArray(data.tips) || data.tips.length === 0) throw new EcoPlanFormatError('The eco-plan has no tips.');
+  if (!isObject(data.offsetSuggestion)) throw new EcoPlanFormatError('The eco-plan is missing "offsetSuggestion".');
+
+  const offsetKg = data.offsetSuggestion.co2ToOffsetKg;
+  const tips = data.tips.map(parseTip)
+    .sort((a, b) => ECO_TIP_PRIORITIES.indexOf(a.priority) - ECO_TIP_PRIORITIES.indexOf(b.priority));
+
+  return {
+    intro: requireText(data.intro, 'intro'),
+    tips,
+    offsetSuggestion: {
+      description: requireText(data.offsetSuggestion.description, 'offsetSuggestion.description'),
+      co2ToOffsetKg: typeof offsetKg === 'number' && Number.isFinite(offsetKg) && offsetKg >= 0 ? offsetKg : 0,
+    },
+  };
+}
+
+/**
+ * Parses a model's JSON text and validates it as an eco-plan.
+ * @param text The raw text of the answer
+ * @returns The eco-plan
+ * @throws EcoPlanFormatError if the text isn't valid JSON or isn't an eco-plan
+ */
+export function parseEcoPlanJson(text: string): EcoPlan {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new EcoPlanFormatError('The eco-plan is not valid JSON.');
+  }
+  return parseEcoPlan(data);
+}
+
+/**
+ * Reads whatever has arrived so far of a streamed eco-plan, for showing it while it's generated.
+ * Unlike parseEcoPlan this never throws: missing parts are left empty, and a tip is only included once its title has arrived.
+ * @param text The JSON text received so far
+ * @returns The plan so far
+ */
+export function parsePartialEcoPlan(text: string): PartialEcoPlan {
+  const data = parsePartialJson(text);
+  if (!isObject(data)) return { intro: '', tips: [], offsetSuggestion: null };
+
+  const tips = (Array.isArray(data.tips) ? data.tips : [])
+    .filter((tip): tip is Record<string, unknown> => isObject(tip) && typeof tip.title === 'string' && tip.title !== '')
+    .map(tip => ({
+      title: tip.title as string,
+      description: typeof tip.description === 'string' ? tip.description : '',
+      category: ECO_TIP_CATEGORIES.includes(tip.category as EcoTipCategory) ? tip.category as EcoTipCategory : 'other',
+      estimatedSavingKg: typeof tip.estimatedSavingKg === 'number' ? tip.estimatedSavingKg : null,
+      priority: ECO_TIP_PRIORITIES.includes(tip.priority as EcoTipPriority) ? tip.priority as EcoTipPriority : 'medium',
+    }));
+  const offset = data.offsetSuggestion;
+
+  return {
+    intro: typeof data.intro === 'string' ? data.intro : '',
+    tips,
+    offsetSuggestion: isObject(offset) && typeof offset.description === 'string'
+      ? { description: offset.description, co2ToOffsetKg: typeof offset.co2ToOffsetKg === 'number' ? offset.co2ToOffsetKg : 0 }
+      : null,
+  };
+}
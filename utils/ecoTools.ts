@@ -0,0 +1,135 @@
+import { Airport, CabinClass, EcoTool, EmissionOptions } from '../types';
+import { CABIN_CLASSES } from '../constants';
+import { AirportIndex, findAirportByIata, searchAirports } from './airportSearch';
+import { calculateLeg } from './itinerary';
+import { compareTravelModes } from './modeComparison';
+
+// Local calculations the eco-plan assistant can ask for during a conversation.
+// Answers are plain objects, so they can be sent straight back to the model as JSON.
+
+// The most airports a search returns to the assistant.
+const MAX_AIRPORT_RESULTS = 5;
+
+// Describes an airport briefly, for the assistant.
+const describeAirport = (airport: Airport) => ({
+  iata: airport.iata,
+  name: airport.name,
+  city: airport.city,
+  country: airport.country,
+});
+
+// Reads a three-letter airport code argument, returning an error message the assistant can act on if it's unknown.
+const readAirport = (index: AirportIndex, value: unknown): Airport | string => {
+  const airport = typeof value === 'string' ? findAirportByIata(index, value) : undefined;
+  return airport ?? `Unknown airport code "${String(value)}". Use find_airports to look up the code first.`;
+};
+
+/**
+ * Creates the tools the eco-plan assistant can call, using the same data and assumptions as the rest of the app.
+ * @param index The airport search index
+ * @param options The cabin class and radiative forcing settings the user has chosen
+ * @returns The tools
+ */
+export function createEcoTools(index: AirportIndex, options: EmissionOptions): EcoTool[] {
+  const airportPair = {
+    from: { type: 'string', description: 'Three-letter IATA code of the departure airport, e.g. KTM.' },
+    to: { type: 'string', description: 'Three-letter IATA code of the arrival airport, e.g. DEL.' },
+  };
+
+  return [
+    {
+      name: 'find_airports',
+      description: 'Searches the airport list by city, airport name or code, and returns matching airports with their IATA codes.',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string', description: 'A city, airport name or code, e.g. "Pokhara".' } },
+        required: ['query'],
+      },
+      run: ({ query }) => ({
+        airports: searchAirports(index, String(query ?? ''), MAX_AIRPORT_RESULTS).map(describeAirport),
+      }),
+    },
+    {
+      name: 'calculate_flight_emissions',
+      description: "Calculates the distance and CO₂ per passenger of a one-way flight between two airports, with the app's own method.",
+      parameters: {
+        type: 'object',
+        properties: {
+          ...airportPair,
+          cabinClass: {
+            type: 'string',
+            enum: CABIN_CLASSES.map(cabin => cabin.cabinClass),
+            description: `The cabin class. Defaults to the one the user picked (${options.cabinClass}).`,
+          },
+        },
+        required: ['from', 'to'],
+      },
+      run: ({ from, to, cabinClass }) => {
+        const fromAirport = readAirport(index, from);
+        const toAirport = readAirport(index, to);
+        if (typeof fromAirport === 'string') return { error: fromAirport };
+        if (typeof toAirport === 'string') return { error: toAirport };
+
+        const cabin = CABIN_CLASSES.some(c => c.cabinClass === cabinClass) ? (cabinClass as CabinClass) : options.cabinClass;
+        const { distance, emissions } = calculateLeg(fromAirport, toAirport, { ...options, cabinClass: cabin });
+        return {
+          from: describeAirport(fromAirport),
+          to: describeAirport(toAirport),
+          greatCircleDistanceKm: Math.round(distance),
+          flownDistanceKm: Math.round(emissions.flownDistance),
+          band: emissions.bandLabel,
+          cabinClass: emissions.cabinLabel,
+          includesRadiativeForcing: options.includeRadiativeForcing,
+          co2KgPerPassenger: Math.round(emissions.total),
+        };
+      },
+    },
+    {
+      name: 'compare_travel_modes',
+      description: 'Compares flying between two airports with going by rail, coach or car: CO₂ per passenger, journey time and whether each is possible.',
+      parameters: {
+        type: 'object',
+        properties: airportPair,
+        required: ['from', 'to'],
+      },
+      run: ({ from, to }) => {
+        const fromAirport = readAirport(index, from);
+        const toAirport = readAirport(index, to);
+        if (typeof fromAirport === 'string') return { error: fromAirport };
+        if (typeof toAirport === 'string') return { error: toAirport };
+
+        const modes = compareTravelModes(calculateLeg(fromAirport, toAirport, options));
+        return {
+          from: describeAirport(fromAirport),
+          to: describeAirport(toAirport),
+          modes: modes.map(mode => ({
+            mode: mode.label,
+            available: mode.available,
+            ...(mode.unavailableReason ? { unavailableReason: mode.unavailableReason } : {}),
+            distanceKm: Math.round(mode.distance),
+            co2KgPerPassenger: Math.round(mode.co2),
+            travelTimeHours: Math.round(mode.travelTimeHours * 10) / 10,
+          })),
+        };
+      },
+    },
+  ];
+}
+
+/**
+ * Runs one of the assistant's tools, turning unknown tools and failures into an error the assistant can read.
+ * @param tools The tools on offer
+ * @param name The tool the assistant asked for
+ * @param args The arguments it passed
+ * @returns The tool's answer, or an object with an `error` message
+ */
+export function runEcoTool(tools: EcoTool[], name: string, args: Record<string, unknown>): unknown {
+  const tool = tools.find(t => t.name === name);
+  if (!tool) return { error: `There is no tool called "${name}".` };
+  try {
+    return tool.run(args);
+  } catch (error) {
+    console.error(`The ${name} tool failed:`, error);
+    return { error: `The ${name} tool failed.` };
+  }
+}
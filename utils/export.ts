@@ -0,0 +1,184 @@
+import { FlightState, Methodology, OffsetPricing, PartialEcoPlan, TripResult } from '../types';
+import { formatCsv } from './csv';
+import { estimateBurnRate } from './flightBurn';
+import { getOutboundLegs } from './itinerary';
+import { getMethodologyRows } from './methodology';
+import { estimateOffsetCosts, getPricingCurrency } from './offsets';
+
+// Builds the files the app can export, and hands them to the browser to download or print.
+
+// The class added to the page while a report is printed; the print styles in index.html use it.
+const PRINT_REPORT_CLASS = 'print-report-mode';
+
+/**
+ * Makes the browser download some text as a file.
+ * @param content The file contents
+ * @param fileName The suggested file name
+ * @param type The MIME type, e.g. "text/csv"
+ */
+export function downloadFile(content: string, fileName: string, type: string): void {
+  // Excel only reads CSV files as UTF-8 (needed for "CO₂") when they start with a byte order mark.
+  const bom = type === 'text/csv' ? '\uFEFF' : '';
+  const url = URL.createObjectURL(new Blob([bom + content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the download a moment to start before releasing the data.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Prints only the parts of the page marked with the "print-report" class, e.g. the calculation results.
+ */
+export function printReport(): void {
+  document.body.classList.add(PRINT_REPORT_CLASS);
+  window.addEventListener('afterprint', () => document.body.classList.remove(PRINT_REPORT_CLASS), { once: true });
+  window.print();
+}
+
+/**
+ * Makes a file name for an export, e.g. "ecofly-trip-KTM-DEL-2026-10-19.csv".
+ * @param parts What the export is, e.g. ["trip", "KTM", "DEL"]
+ * @param extension The file extension, without the dot
+ * @param timestamp When the data is from, in ms since epoch
+ * @returns The file name
+ */
+export function getExportFileName(parts: string[], extension: string, timestamp: number): string {
+  return ['ecofly', ...parts, new Date(timestamp).toISOString().slice(0, 10)].join('-') + `.${extension}`;
+}
+
+/**
+ * Builds the JSON export of a calculated trip: every leg with its full emission breakdown, the totals,
+ * what offsetting them would cost, the eco-plan if one was generated, and the methodology.
+ * @param trip The calculated trip
+ * @param plan The eco-plan on screen, or null
+ * @param methodology How the figures were calculated
+ * @param pricing The offset price catalogue and currency
+ * @returns The JSON text
+ */
+export function buildTripJson(trip: TripResult, plan: PartialEcoPlan | null, methodology: Methodology, pricing: OffsetPricing): string {
+  const outboundLegs = getOutboundLegs(trip);
+  return JSON.stringify({
+    route: [outboundLegs[0].from, ...outboundLegs.map(leg => leg.to)].map(airport => airport.iata),
+    roundTrip: trip.roundTrip,
+    passengers: trip.passengers,
+    totalDistanceKm: trip.totalDistance,
+    emissionsPerPassengerKg: trip.emissionsPerPassenger,
+    totalEmissionsKg: trip.totalEmissions,
+    legs: trip.legs.map(leg => ({
+      from: { iata: leg.from.iata, name: leg.from.name, city: leg.from.city, country: leg.from.country },
+      to: { iata: leg.to.iata, name: leg.to.name, city: leg.to.city, country: leg.to.country },
+      distanceKm: leg.distance,
+      emissions: leg.emissions,
+    })),
+    offsetCosts: {
+      catalogue: pricing.catalogue.name,
+      currency: getPricingCurrency(pricing).code,
+      projects: estimateOffsetCosts(trip.totalEmissions, pricing).map(estimate => ({
+        project: estimate.project.name,
+        minCost: Number(estimate.minCost.toFixed(2)),
+        maxCost: Number(estimate.maxCost.toFixed(2)),
+      })),
+    },
+    ecoPlan: plan,
+    methodology,
+  }, null, 2);
+}
+
+/**
+ * Builds the CSV export of a calculated trip: a table of legs and totals, then the offset costs,
+ * the eco-plan tips and the methodology.
+ * @param trip The calculated trip
+ * @param plan The eco-plan on screen, or null
+ * @param methodology How the figures were calculated
+ * @param pricing The offset price catalogue and currency
+ * @returns The CSV text
+ */
+export function buildTripCsv(trip: TripResult, plan: PartialEcoPlan | null, methodology: Methodology, pricing: OffsetPricing): string {
+  const rows: (string | number | null)[][] = [
+    ['Leg', 'From', 'To', 'Great-circle km', 'Flown km', 'Distance band', 'Band factor (kg/pkm)', 'Cabin', 'Cabin multiplier', 'RF multiplier', 'kg CO₂ per passenger', `kg CO₂ for ${trip.passengers} passenger(s)`],
+    ...trip.legs.map((leg, i) => [
+      i + 1,
+      leg.from.iata,
+      leg.to.iata,
+      leg.distance.toFixed(1),
+      leg.emissions.flownDistance.toFixed(1),
+      leg.emissions.bandLabel,
+      leg.emissions.bandFactor,
+      leg.emissions.cabinLabel,
+      leg.emissions.cabinMultiplier,
+      leg.emissions.radiativeForcingMultiplier,
+      leg.emissions.total.toFixed(2),
+      (leg.emissions.total * trip.passengers).toFixed(2),
+    ]),
+    ['Total', '', '', trip.totalDistance.toFixed(1), '', '', '', '', '', '', trip.emissionsPerPassenger.toFixed(2), trip.totalEmissions.toFixed(2)],
+  ];
+
+  const currency = getPricingCurrency(pricing).code;
+  rows.push([], ['Offset project', `Min cost (${currency})`, `Max cost (${currency})`, 'Price catalogue']);
+  rows.push(...estimateOffsetCosts(trip.totalEmissions, pricing).map(estimate => [
+    estimate.project.name, estimate.minCost.toFixed(2), estimate.maxCost.toFixed(2), pricing.catalogue.name,
+  ]));
+
+  if (plan && plan.tips.length > 0) {
+    rows.push([], ['Eco-plan tip', 'Category', 'Priority', 'Estimated saving (kg CO₂ per passenger)', 'Description']);
+    rows.push(...plan.tips.map(tip => [tip.title, tip.category, tip.priority, tip.estimatedSavingKg, tip.description]));
+  }
+
+  rows.push([], ...getMethodologyRows(methodology));
+  return formatCsv(rows);
+}
+
+/**
+ * Builds the CSV export of the live flights table, with each aircraft's estimated fuel burn.
+ * @param flights The aircraft in the table
+ * @param methodology How the burn was estimated, and when the positions are from
+ * @returns The CSV text
+ */
+export function buildFlightsCsv(flights: FlightState[], methodology: Methodology): string {
+  const rows: (string | number | boolean | null)[][] = [
+    ['icao24', 'Callsign', 'Origin country', 'Latitude', 'Longitude', 'Barometric altitude (m)', 'Geometric altitude (m)', 'On ground', 'Speed (m/s)', 'Track (°)', 'Vertical rate (m/s)', 'Phase', 'Est. fuel (kg/h)', 'Est. CO₂ (kg/h)'],
+    ...flights.map(flight => {
+      const burn = estimateBurnRate(flight);
+      return [
+        flight.icao24, flight.callsign, flight.origin_country, flight.latitude, flight.longitude,
+        flight.baro_altitude, flight.geo_altitude, flight.on_ground, flight.velocity, flight.true_track, flight.vertical_rate,
+        burn.phase, Math.round(burn.fuelKgPerHour), Math.round(burn.co2KgPerHour),
+      ];
+    }),
+  ];
+  rows.push([], ...getMethodologyRows(methodology));
+  return formatCsv(rows);
+}
+
+/**
+ * Builds a GeoJSON FeatureCollection of the live flights, one point per aircraft with a known position.
+ * The methodology is kept in the collection's "metadata" member.
+ * @param flights The aircraft in the table
+ * @param methodology How the burn was estimated, and when the positions are from
+ * @returns The GeoJSON text
+ */
+export function buildFlightsGeoJson(flights: FlightState[], methodology: Methodology): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    metadata: methodology,
+    features: flights
+      .filter(flight => flight.latitude !== null && flight.longitude !== null)
+      .map(flight => {
+        const burn = estimateBurnRate(flight);
+        return {
+          type: 'Feature',
+          id: flight.icao24,
+          // GeoJSON puts longitude first.
+          geometry: { type: 'Point', coordinates: [flight.longitude, flight.latitude] },
+          properties: {
+            ...flight,
+            phase: burn.phase,
+            fuelKgPerHour: Math.round(burn.fuelKgPerHour),
+            co2KgPerHour: Math.round(burn.co2KgPerHour),
+          },
+        };
+      }),
+  }, null, 2);
+}
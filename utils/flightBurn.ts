@@ -0,0 +1,43 @@
+import { BurnEstimate, FlightPhase, FlightState } from '../types';
+import { CO2_PER_KG_FUEL, LIVE_BURN_MODEL } from '../constants';
+
+/**
+ * Works out whether an aircraft is on the ground, climbing, cruising or descending.
+ * @param flight The aircraft's latest state
+ * @returns The flight phase
+ */
+export function getFlightPhase(flight: FlightState): FlightPhase {
+  if (flight.on_ground) return 'ground';
+  const verticalRate = flight.vertical_rate ?? 0;
+  if (verticalRate > LIVE_BURN_MODEL.climbThreshold) return 'climb';
+  if (verticalRate < -LIVE_BURN_MODEL.climbThreshold) return 'descent';
+  return 'cruise';
+}
+
+/**
+ * Estimates the fuel burn and CO2 emission rate of a tracked aircraft.
+ * Cruise burn is scaled with speed (relative to a typical cruise speed) and with altitude,
+ * since thicker air at lower levels means more drag. Climbs burn more and descents far less.
+ * Aircraft standing still on the ground are assumed to have their engines off.
+ * @param flight The aircraft's latest state
+ * @returns The phase with the estimated fuel and CO2 rates in kg per hour
+ */
+export function estimateBurnRate(flight: FlightState): BurnEstimate {
+  const phase = getFlightPhase(flight);
+  const model = LIVE_BURN_MODEL;
+  const velocity = flight.velocity ?? 0;
+
+  let fuelKgPerHour: number;
+  if (phase === 'ground') {
+    fuelKgPerHour = velocity > 1 ? model.taxiFuelKgPerHour : 0;
+  } else {
+    const altitude = flight.geo_altitude ?? flight.baro_altitude ?? model.referenceAltitude;
+    const altitudeShare = Math.min(Math.max(altitude / model.referenceAltitude, 0), 1);
+    const altitudeFactor = 1 + model.lowAltitudePenalty * (1 - altitudeShare);
+    // Without a speed we assume cruise speed; otherwise keep the factor within a plausible range.
+    const speedFactor = flight.velocity === null ? 1 : Math.min(Math.max(velocity / model.referenceSpeed, 0.5), 1.3);
+    fuelKgPerHour = model.cruiseFuelKgPerHour * speedFactor * altitudeFactor * model.phaseMultipliers[phase];
+  }
+
+  return { phase, fuelKgPerHour, co2KgPerHour: fuelKgPerHour * CO2_PER_KG_FUEL };
+}
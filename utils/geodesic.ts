@@ -0,0 +1,153 @@
+import { FlightLeg, FlightState } from '../types';
+import { calculateDistance } from './calculator';
+
+// Geometry on the earth's surface, for drawing flight routes and checking whether aircraft are following them.
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Calculates the initial compass bearing from one point to another along the great circle.
+ * @param lat1 Latitude of the start point
+ * @param lon1 Longitude of the start point
+ * @param lat2 Latitude of the end point
+ * @param lon2 Longitude of the end point
+ * @returns The bearing in degrees, 0-360 clockwise from north
+ */
+export function initialBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const y = Math.sin(toRad(lon2 - lon1)) * Math.cos(toRad(lat2));
+  const x = Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) - Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(toRad(lon2 - lon1));
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Finds the point a fraction of the way along the great circle between two points.
+ * @param from The start point as [latitude, longitude]
+ * @param to The end point as [latitude, longitude]
+ * @param fraction 0 for the start, 1 for the end
+ * @returns The point as [latitude, longitude]
+ */
+export function intermediatePoint(from: [number, number], to: [number, number], fraction: number): [number, number] {
+  const [phi1, lambda1] = [toRad(from[0]), toRad(from[1])];
+  const [phi2, lambda2] = [toRad(to[0]), toRad(to[1])];
+  const angle = calculateDistance(from[0], from[1], to[0], to[1]) / EARTH_RADIUS_KM;
+  if (angle === 0) return from;
+
+  const a = Math.sin((1 - fraction) * angle) / Math.sin(angle);
+  const b = Math.sin(fraction * angle) / Math.sin(angle);
+  const x = a * Math.cos(phi1) * Math.cos(lambda1) + b * Math.cos(phi2) * Math.cos(lambda2);
+  const y = a * Math.cos(phi1) * Math.sin(lambda1) + b * Math.cos(phi2) * Math.sin(lambda2);
+  const z = a * Math.sin(phi1) + b * Math.sin(phi2);
+  return [toDeg(Math.atan2(z, Math.sqrt(x * x + y * y))), toDeg(Math.atan2(y, x))];
+}
+
+/**
+ * Builds the curved line a flight follows between two points, as a list of points along the great circle.
+ * @param from The start point as [latitude, longitude]
+ * @param to The end point as [latitude, longitude]
+ * @param stepKm Roughly how far apart the points should be
+ * @returns The points, including both ends
+ */
+export function greatCirclePoints(from: [number, number], to: [number, number], stepKm: number = 100): [number, number][] {
+  const distance = calculateDistance(from[0], from[1], to[0], to[1]);
+  const segments = Math.min(256, Math.max(1, Math.ceil(distance / stepKm)));
+  const points: [number, number][] = [];
+  for (let i = 0; i <= segments; i++) {
+    points.push(intermediatePoint(from, to, i / segments));
+  }
+  return points;
+}
+
+/**
+ * Splits a line wherever it crosses the 180° meridian, so the map doesn't draw it the long way round the world.
+ * The pieces meet at the crossing point, on either edge of the map.
+ * @param points The line as [latitude, longitude] points
+ * @returns One or more pieces of the line
+ */
+export function splitAtAntimeridian(points: [number, number][]): [number, number][][] {
+  if (points.length === 0) return [];
+  const pieces: [number, number][][] = [[points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    const [lat1, lon1] = points[i - 1];
+    const [lat2, lon2] = points[i];
+    if (Math.abs(lon2 - lon1) > 180) {
+      // Unwrap the second longitude to find where the segment crosses ±180°.
+      const edge = lon1 > 0 ? 180 : -180;
+      const unwrapped = lon2 + (lon1 > 0 ? 360 : -360);
+      const fraction = (edge - lon1) / (unwrapped - lon1);
+      const crossingLat = lat1 + (lat2 - lat1) * fraction;
+      pieces[pieces.length - 1].push([crossingLat, edge]);
+      pieces.push([[crossingLat, -edge]]);
+    }
+    pieces[pieces.length - 1].push(points[i]);
+  }
+  return pieces;
+}
+
+/**
+ * Shifts a line's longitudes by whole turns so no step between two points is more than 180°, e.g. 179, -179
+ * becomes 179, 181. The first point keeps its longitude. This lets a line over the Pacific be drawn, or zoomed to,
+ * as one piece instead of two at opposite edges of the map.
+ * @param points The line as [latitude, longitude] points
+ * @returns The same points, with longitudes that may run past ±180
+ */
+export function unwrapLongitudes(points: [number, number][]): [number, number][] {
+  const unwrapped: [number, number][] = [];
+  for (const [lat, lon] of points) {
+    const previous = unwrapped[unwrapped.length - 1]?.[1] ?? lon;
+    unwrapped.push([lat, lon + Math.round((previous - lon) / 360) * 360]);
+  }
+  return unwrapped;
+}
+
+/**
+ * Works out how far an aircraft is from a flight leg's great circle, and how far along the leg it is.
+ * @param latitude The aircraft's latitude
+ * @param longitude The aircraft's longitude
+ * @param leg The flight leg
+ * @returns The distance off the route (km, always positive) and along it from the start (km, negative before the start)
+ */
+export function distanceFromLeg(latitude: number, longitude: number, leg: FlightLeg): { crossTrack: number; alongTrack: number } {
+  const d13 = calculateDistance(leg.from.latitude, leg.from.longitude, latitude, longitude) / EARTH_RADIUS_KM;
+  const bearing13 = toRad(initialBearing(leg.from.latitude, leg.from.longitude, latitude, longitude));
+  const bearing12 = toRad(initialBearing(leg.from.latitude, leg.from.longitude, leg.to.latitude, leg.to.longitude));
+  const dxt = Math.asin(Math.sin(d13) * Math.sin(bearing13 - bearing12));
+  const dat = Math.acos(Math.min(1, Math.max(-1, Math.cos(d13) / Math.cos(dxt))));
+  return {
+    crossTrack: Math.abs(dxt) * EARTH_RADIUS_KM,
+    alongTrack: dat * EARTH_RADIUS_KM * Math.sign(Math.cos(bearing13 - bearing12)),
+  };
+}
+
+/**
+ * Checks whether an aircraft is flying along any of the given legs, in either direction: close to the great circle,
+ * between its two ends, and heading roughly the same way as the route at that point.
+ * @param flight The aircraft
+ * @param legs The route's legs
+ * @param corridorWidthKm How far either side of the route still counts
+ * @param maxHeadingDifference How many degrees the aircraft's heading may differ from the route's
+ * @returns True if the aircraft is following the route
+ */
+export function isFollowingRoute(
+  flight: FlightState,
+  legs: FlightLeg[],
+  corridorWidthKm: number,
+  maxHeadingDifference: number
+): boolean {
+  if (flight.latitude === null || flight.longitude === null || flight.on_ground) return false;
+  return legs.some(leg => {
+    const { crossTrack, alongTrack } = distanceFromLeg(flight.latitude!, flight.longitude!, leg);
+    if (crossTrack > corridorWidthKm || alongTrack < 0 || alongTrack > leg.distance) return false;
+    if (flight.true_track === null) return true;
+
+    // The route's direction where the aircraft is, compared with its heading either way along the route.
+    const fraction = Math.min(alongTrack / leg.distance, 0.99);
+    const here = intermediatePoint([leg.from.latitude, leg.from.longitude], [leg.to.latitude, leg.to.longitude], fraction);
+    const ahead = intermediatePoint([leg.from.latitude, leg.from.longitude], [leg.to.latitude, leg.to.longitude], fraction + 0.01);
+    const routeBearing = initialBearing(here[0], here[1], ahead[0], ahead[1]);
+    const difference = Math.abs(((flight.true_track - routeBearing + 540) % 360) - 180);
+    return difference <= maxHeadingDifference || difference >= 180 - maxHeadingDifference;
+  });
+}
@@ -0,0 +1,64 @@
+import { Geofence } from '../types';
+import { calculateDistance } from './calculator';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'geofences';
+
+/**
+ * Checks whether a point lies inside a polygon, by counting how many edges a line heading east from it crosses.
+ * Geofences are small enough that treating latitude/longitude as flat coordinates is accurate.
+ * @param latitude The point's latitude
+ * @param longitude The point's longitude
+ * @param points The polygon's corners as [latitude, longitude]
+ * @returns True if the point is inside
+ */
+export function isInsidePolygon(latitude: number, longitude: number, points: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lonI] = points[i];
+    const [latJ, lonJ] = points[j];
+    const crosses = (latI > latitude) !== (latJ > latitude) &&
+      longitude < ((lonJ - lonI) * (latitude - latI)) / (latJ - latI) + lonI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Checks whether a point lies inside a geofence.
+ * @param latitude The point's latitude
+ * @param longitude The point's longitude
+ * @param fence The geofence
+ * @returns True if the point is inside
+ */
+export function isInsideGeofence(latitude: number, longitude: number, fence: Geofence): boolean {
+  const { shape } = fence;
+  if (shape.kind === 'circle') {
+    return calculateDistance(latitude, longitude, shape.center[0], shape.center[1]) <= shape.radiusKm;
+  }
+  return isInsidePolygon(latitude, longitude, shape.points);
+}
+
+// Checks that something read back from storage looks like a geofence.
+const isGeofence = (value: unknown): value is Geofence => {
+  const fence = value as Geofence;
+  return typeof fence?.id === 'string' && typeof fence.name === 'string' &&
+    (fence.shape?.kind === 'circle' || (fence.shape?.kind === 'polygon' && Array.isArray(fence.shape.points)));
+};
+
+/**
+ * Gets the geofences saved in a previous session.
+ * @returns The saved geofences
+ */
+export function getSavedGeofences(): Geofence[] {
+  const fences = loadFromStorage<unknown>(STORAGE_KEY, []);
+  return Array.isArray(fences) ? fences.filter(isGeofence) : [];
+}
+
+/**
+ * Saves the geofences for the next session.
+ * @param fences The geofences to save
+ */
+export function saveGeofences(fences: Geofence[]): void {
+  saveToStorage(STORAGE_KEY, fences);
+}
@@ -0,0 +1,86 @@
+import { FlightState, HistorySnapshot } from '../types';
+import { HISTORY_MAX_INTERPOLATION_GAP_MS } from '../constants';
+
+// Helpers for replaying recorded snapshots smoothly, by sliding each aircraft between the positions we recorded.
+
+/**
+ * Finds the last snapshot taken at or before a moment.
+ * @param snapshots Snapshots sorted oldest first
+ * @param time The moment (ms since epoch)
+ * @returns The snapshot's index, or -1 if the moment is before the first snapshot
+ */
+export function findSnapshotIndex(snapshots: HistorySnapshot[], time: number): number {
+  let low = 0;
+  let high = snapshots.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (snapshots[mid].timestamp <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Blends two optional numbers, keeping whichever exists if one is missing.
+const lerp = (a: number | null, b: number | null, t: number): number | null => {
+  if (a === null) return b;
+  if (b === null) return a;
+  return a + (b - a) * t;
+};
+
+// Blends two compass headings the short way round, so 350° to 10° passes through 0° rather than 180°.
+const lerpAngle = (a: number | null, b: number | null, t: number): number | null => {
+  if (a === null || b === null) return lerp(a, b, t);
+  const delta = ((b - a + 540) % 360) - 180;
+  return (a + delta * t + 360) % 360;
+};
+
+// Blends two longitudes the short way round, so aircraft crossing the antimeridian don't sweep across the map.
+const lerpLongitude = (a: number | null, b: number | null, t: number): number | null => {
+  if (a === null || b === null) return lerp(a, b, t);
+  const delta = ((b - a + 540) % 360) - 180;
+  return ((a + delta * t + 540) % 360) - 180;
+};
+
+/**
+ * Works out where every aircraft was at a moment between two recorded snapshots.
+ * Aircraft in both snapshots are placed part-way between their two positions. Aircraft that disappear
+ * stay at their last position until the next snapshot, and new aircraft appear when they were first seen.
+ * Across a gap in the recording, the earlier snapshot is shown for a while and then nothing.
+ * @param snapshots Snapshots sorted oldest first
+ * @param time The moment to show (ms since epoch)
+ * @returns The aircraft at that moment
+ */
+export function interpolateFlights(snapshots: HistorySnapshot[], time: number): FlightState[] {
+  const index = findSnapshotIndex(snapshots, time);
+  if (index === -1) return [];
+
+  const before = snapshots[index];
+  const after = snapshots[index + 1];
+  if (!after || after.timestamp - before.timestamp > HISTORY_MAX_INTERPOLATION_GAP_MS) {
+    return time - before.timestamp <= HISTORY_MAX_INTERPOLATION_GAP_MS ? before.flights : [];
+  }
+
+  const t = (time - before.timestamp) / (after.timestamp - before.timestamp);
+  const nextPositions = new Map(after.flights.map(flight => [flight.icao24, flight]));
+
+  return before.flights.map(flight => {
+    const next = nextPositions.get(flight.icao24);
+    if (!next) return flight;
+    return {
+      ...flight,
+      latitude: lerp(flight.latitude, next.latitude, t),
+      longitude: lerpLongitude(flight.longitude, next.longitude, t),
+      baro_altitude: lerp(flight.baro_altitude, next.baro_altitude, t),
+      geo_altitude: lerp(flight.geo_altitude, next.geo_altitude, t),
+      velocity: lerp(flight.velocity, next.velocity, t),
+      true_track: lerpAngle(flight.true_track, next.true_track, t),
+      vertical_rate: lerp(flight.vertical_rate, next.vertical_rate, t),
+      on_ground: t < 0.5 ? flight.on_ground : next.on_ground,
+    };
+  });
+}
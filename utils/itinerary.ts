@@ -0,0 +1,105 @@
+import { Airport, EmissionOptions, FlightLeg, Itinerary, TripResult } from '../types';
+import { calculateDistance, calculateEmissions, DEFAULT_EMISSION_OPTIONS } from './calculator';
+
+// The most airports (origin, stopovers and destination) a single itinerary can hold.
+export const MAX_ITINERARY_STOPS = 6;
+
+/**
+ * Works out which airport pairs are flown for an itinerary, in order.
+ * For a round trip, the outbound legs are followed by the same legs flown in reverse.
+ * @param stops The ordered list of airports
+ * @param roundTrip Whether the traveller flies back the same way
+ * @returns The [from, to] pairs of every leg
+ */
+export function getItineraryLegs(stops: Airport[], roundTrip: boolean): [Airport, Airport][] {
+  const outbound: [Airport, Airport][] = [];
+  for (let i = 0; i < stops.length - 1; i++) {
+    outbound.push([stops[i], stops[i + 1]]);
+  }
+  if (!roundTrip) return outbound;
+
+  const inbound = [...outbound].reverse().map(([from, to]): [Airport, Airport] => [to, from]);
+  return [...outbound, ...inbound];
+}
+
+/**
+ * Calculates the distance and emissions of a single flight between two airports.
+ * @param from The departure airport
+ * @param to The arrival airport
+ * @param options The cabin class and radiative forcing settings
+ * @returns The leg with its distance and per-passenger emission breakdown
+ */
+export function calculateLeg(from: Airport, to: Airport, options: EmissionOptions = DEFAULT_EMISSION_OPTIONS): FlightLeg {
+  const distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  return { from, to, distance, emissions: calculateEmissions(distance, options) };
+}
+
+/**
+ * Calculates every leg of an itinerary along with the trip totals.
+ * Each leg is estimated on its own, so a short connection uses the short-haul factor
+ * even when the rest of the trip is long-haul.
+ * @param itinerary The airports, round-trip flag and passenger count
+ * @param options The cabin class and radiative forcing settings
+ * @returns The per-leg breakdown and totals
+ */
+export function calculateTrip(itinerary: Itinerary, options: EmissionOptions = DEFAULT_EMISSION_OPTIONS): TripResult {
+  const legs = getItineraryLegs(itinerary.stops, itinerary.roundTrip).map(([from, to]) => calculateLeg(from, to, options));
+
+  const totalDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const emissionsPerPassenger = legs.reduce((sum, leg) => sum + leg.emissions.total, 0);
+
+  return {
+    legs,
+    roundTrip: itinerary.roundTrip,
+    passengers: itinerary.passengers,
+    totalDistance,
+    emissionsPerPassenger,
+    totalEmissions: emissionsPerPassenger * itinerary.passengers,
+  };
+}
+
+/**
+ * Gets the legs of the outbound journey. For a round trip, the second half of the legs is the way back.
+ * @param trip The calculated trip
+ * @returns The outbound legs, in order
+ */
+export function getOutboundLegs(trip: TripResult): FlightLeg[] {
+  return trip.roundTrip ? trip.legs.slice(0, trip.legs.length / 2) : trip.legs;
+}
+
+/**
+ * Finds where a calculated trip starts and where its outbound journey ends.
+ * @param trip The calculated trip
+ * @returns The origin and the outbound destination
+ */
+export function getTripEndpoints(trip: TripResult): { origin: Airport; destination: Airport } {
+  const outboundLegs = getOutboundLegs(trip);
+  return { origin: outboundLegs[0].from, destination: outboundLegs[outboundLegs.length - 1].to };
+}
+
+/**
+ * Gets the assumptions a trip was calculated with.
+ * @param trip The calculated trip
+ * @returns The cabin class and radiative forcing setting of its legs
+ */
+export function getTripEmissionOptions(trip: TripResult): EmissionOptions {
+  const { cabinClass, radiativeForcingMultiplier } = trip.legs[0].emissions;
+  return { cabinClass, includeRadiativeForcing: radiativeForcingMultiplier > 1 };
+}
+
+/**
+ * Makes a key that identifies a trip's route and assumptions, e.g. "KTM-DEL-LHR|round|economy|rf".
+ * Trips with the same key share things like the eco-plan conversation, whatever the passenger count.
+ * @param trip The calculated trip
+ * @returns The key
+ */
+export function getItineraryKey(trip: TripResult): string {
+  const outboundLegs = getOutboundLegs(trip);
+  const { cabinClass, radiativeForcingMultiplier } = outboundLegs[0].emissions;
+  return [
+    [outboundLegs[0].from, ...outboundLegs.map(leg => leg.to)].map(airport => airport.iata).join('-'),
+    trip.roundTrip ? 'round' : 'oneway',
+    cabinClass,
+    radiativeForcingMultiplier > 1 ? 'rf' : 'no-rf',
+  ].join('|');
+}
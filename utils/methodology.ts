@@ -0,0 +1,73 @@
+import { EmissionOptions, Methodology } from '../types';
+import { CABIN_CLASSES, CO2_PER_KG_FUEL, DETOUR_CORRECTION, DISTANCE_BANDS, LIVE_BURN_MODEL, RADIATIVE_FORCING_INDEX } from '../constants';
+
+// Describes how the app's figures are worked out, so exported numbers can be checked and reproduced.
+
+/**
+ * Describes the method and emission factors behind a flight emission calculation.
+ * @param options The cabin class and radiative forcing settings the figures were calculated with
+ * @param dataTimestamp When the figures were calculated, in ms since epoch
+ * @returns The methodology
+ */
+export function getEmissionMethodology(options: EmissionOptions, dataTimestamp: number): Methodology {
+  return {
+    title: 'Flight emission methodology',
+    dataTimestamp: new Date(dataTimestamp).toISOString(),
+    items: [
+      { label: 'Distance', value: 'Great-circle (haversine) distance between the airports' },
+      { label: 'Detour correction', value: `+${Math.round(DETOUR_CORRECTION * 100)}% for routing, holding and approach paths` },
+      ...DISTANCE_BANDS.map(band => ({
+        label: `${band.label} factor`,
+        value: `${band.factor} kg CO₂ per economy passenger-km`,
+      })),
+      {
+        label: 'Cabin class multipliers',
+        value: CABIN_CLASSES.map(cabin => `${cabin.label} ×${cabin.multiplier}`).join(', '),
+      },
+      { label: 'Cabin class used', value: CABIN_CLASSES.find(cabin => cabin.cabinClass === options.cabinClass)?.label ?? options.cabinClass },
+      {
+        label: 'Radiative forcing',
+        value: options.includeRadiativeForcing
+          ? `Included: CO₂ multiplied by ${RADIATIVE_FORCING_INDEX} for non-CO₂ effects at altitude`
+          : `Not included (the multiplier would be ${RADIATIVE_FORCING_INDEX})`,
+      },
+      { label: 'Airport data', value: 'OurAirports (ourairports.com)' },
+    ],
+  };
+}
+
+/**
+ * Describes how the fuel burn of tracked aircraft is estimated.
+ * @param sourceLabel The flight data source the positions came from
+ * @param dataTimestamp When the positions were received (or recorded, for history), in ms since epoch
+ * @returns The methodology
+ */
+export function getLiveBurnMethodology(sourceLabel: string, dataTimestamp: number): Methodology {
+  const { cruiseFuelKgPerHour, referenceSpeed, referenceAltitude, lowAltitudePenalty, taxiFuelKgPerHour, climbThreshold, phaseMultipliers } = LIVE_BURN_MODEL;
+  return {
+    title: 'Live fuel burn methodology',
+    dataTimestamp: new Date(dataTimestamp).toISOString(),
+    items: [
+      { label: 'Position data', value: sourceLabel },
+      { label: 'Aircraft model', value: 'Every aircraft is treated as a typical single-aisle airliner (A320 / 737 class)' },
+      { label: 'Cruise fuel burn', value: `${cruiseFuelKgPerHour} kg/h at ${referenceSpeed} m/s and ${referenceAltitude.toLocaleString()} m, scaled by speed` },
+      { label: 'Low altitude', value: `Up to +${Math.round(lowAltitudePenalty * 100)}% at sea level, from the denser air` },
+      { label: 'Flight phase multipliers', value: `Climb ×${phaseMultipliers.climb}, cruise ×${phaseMultipliers.cruise}, descent ×${phaseMultipliers.descent} (above ${climbThreshold} m/s of vertical rate)` },
+      { label: 'On the ground', value: `${taxiFuelKgPerHour} kg/h while taxiing; none when standing still` },
+      { label: 'CO₂ per kg of fuel', value: `${CO2_PER_KG_FUEL} kg (ICAO)` },
+    ],
+  };
+}
+
+/**
+ * Lists a methodology as label/value rows, for CSV files and printed reports.
+ * @param methodology The methodology
+ * @returns The rows, starting with the title and the data timestamp
+ */
+export function getMethodologyRows(methodology: Methodology): [string, string][] {
+  return [
+    [methodology.title, ''],
+    ['Data timestamp', methodology.dataTimestamp],
+    ...methodology.items.map(({ label, value }): [string, string] => [label, value]),
+  ];
+}
@@ -0,0 +1,73 @@
+import { Airport, FlightLeg, ModeEstimate } from '../types';
+import {
+  AIRPORT_OVERHEAD_HOURS,
+  COUNTRIES_WITHOUT_RAIL,
+  FLIGHT_CRUISE_SPEED,
+  ISLAND_COUNTRIES,
+  LANDMASSES,
+  SURFACE_MODES,
+} from '../constants';
+
+// The default number of people sharing a car.
+export const DEFAULT_CAR_OCCUPANCY = 2;
+
+/**
+ * Checks whether two airports are on the same landmass, i.e. whether they can be reached overland.
+ * Continents joined by land share a landmass; island countries are only connected to themselves.
+ * @param from The departure airport
+ * @param to The arrival airport
+ * @returns True if a road or railway journey is possible in principle
+ */
+export function isConnectedOverland(from: Airport, to: Airport): boolean {
+  if (from.country === to.country) return true;
+  if (ISLAND_COUNTRIES.includes(from.country) || ISLAND_COUNTRIES.includes(to.country)) return false;
+  return LANDMASSES[from.continent] === LANDMASSES[to.continent];
+}
+
+/**
+ * Estimates the footprint and travel time of flying a leg and of making the same journey by train, coach or car.
+ * Surface distances are the great-circle distance stretched by a per-mode road/rail multiplier.
+ * @param leg The flight leg to compare against
+ * @param carOccupancy How many people share the car
+ * @returns One estimate per mode, starting with the flight
+ */
+export function compareTravelModes(leg: FlightLeg, carOccupancy: number = DEFAULT_CAR_OCCUPANCY): ModeEstimate[] {
+  const flight: ModeEstimate = {
+    mode: 'flight',
+    label: 'Flight',
+    icon: '✈️',
+    available: true,
+    distance: leg.emissions.flownDistance,
+    co2: leg.emissions.total,
+    travelTimeHours: leg.distance / FLIGHT_CRUISE_SPEED + AIRPORT_OVERHEAD_HOURS,
+  };
+
+  const connected = isConnectedOverland(leg.from, leg.to);
+
+  const surface = SURFACE_MODES.map((mode): ModeEstimate => {
+    const distance = leg.distance * mode.distanceMultiplier;
+    const co2 = mode.perVehicle ? (distance * mode.factor) / Math.max(1, carOccupancy) : distance * mode.factor;
+
+    let unavailableReason: string | undefined;
+    if (!connected) {
+      unavailableReason = 'No overland connection (crosses the sea)';
+    } else if (distance > mode.maxDistance) {
+      unavailableReason = `Too far to be practical (over ${mode.maxDistance.toLocaleString()} km)`;
+    } else if (mode.mode === 'rail' && [leg.from.country, leg.to.country].some(c => COUNTRIES_WITHOUT_RAIL.includes(c))) {
+      unavailableReason = 'No passenger railway on this route';
+    }
+
+    return {
+      mode: mode.mode,
+      label: mode.label,
+      icon: mode.icon,
+      available: !unavailableReason,
+      unavailableReason,
+      distance,
+      co2,
+      travelTimeHours: distance / mode.averageSpeed + mode.overheadHours,
+    };
+  });
+
+  return [flight, ...surface];
+}
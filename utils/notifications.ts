@@ -0,0 +1,31 @@
+// Helpers for showing browser notifications, which appear even when the tab is in the background.
+
+/**
+ * Checks whether this browser can show notifications at all.
+ * @returns True if the Notification API exists
+ */
+export const notificationsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Asks the user for permission to show notifications. Browsers only allow this in response to a click.
+ * @returns The permission the user chose
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  return Notification.requestPermission();
+}
+
+/**
+ * Shows a browser notification, if the user has allowed them. Otherwise does nothing.
+ * @param title The notification title
+ * @param body The notification text
+ */
+export function showBrowserNotification(title: string, body: string): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag: 'ecofly-tracker' });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker.
+    console.warn('Could not show a notification:', error);
+  }
+}
@@ -0,0 +1,186 @@
+import { CurrencyRate, OffsetCatalogue, OffsetEstimate, OffsetPricing, OffsetProject } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+// Helpers for putting a price on offsetting a trip's emissions, using a catalogue of offset project prices.
+
+const CATALOGUE_STORAGE_KEY = 'offsetCatalogue';
+const CURRENCY_STORAGE_KEY = 'offsetCurrency';
+
+// An error for catalogue files that can't be used.
+export class OffsetCatalogueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OffsetCatalogueError';
+  }
+}
+
+const isCurrencyCode = (code: unknown): code is string => typeof code === 'string' && /^[A-Z]{3}$/.test(code);
+const isPrice = (price: unknown): price is number => typeof price === 'number' && Number.isFinite(price) && price >= 0;
+
+/**
+ * Checks that some JSON is a usable offset catalogue.
+ * @param data The parsed JSON
+ * @returns The catalogue
+ * @throws OffsetCatalogueError describing the first problem found
+ */
+export function parseOffsetCatalogue(data: unknown): OffsetCatalogue {
+  const catalogue = data as Partial<OffsetCatalogue> | null;
+  if (typeof catalogue !== 'object' || catalogue === null) throw new OffsetCatalogueError('The catalogue must be a JSON object.');
+  if (!isCurrencyCode(catalogue.baseCurrency)) throw new OffsetCatalogueError('The catalogue needs a "baseCurrency" such as "USD".');
+  if (!Array.isArray(catalogue.projects) || catalogue.projects.length === 0) throw new OffsetCatalogueError('The catalogue has no "projects".');
+
+  const projects = catalogue.projects.map((project: Partial<OffsetProject>, i): OffsetProject => {
+    if (typeof project?.name !== 'string' || !project.name.trim()) throw new OffsetCatalogueError(`Project ${i + 1} has no "name".`);
+    if (!isPrice(project.minPricePerTonne) || !isPrice(project.maxPricePerTonne) || project.minPricePerTonne > project.maxPricePerTonne) {
+      throw new OffsetCatalogueError(`"${project.name}" needs a "minPricePerTonne" no bigger than its "maxPricePerTonne".`);
+    }
+    return {
+      id: typeof project.id === 'string' && project.id ? project.id : `project-${i + 1}`,
+      name: project.name.trim(),
+      icon: typeof project.icon === 'string' ? project.icon : '🌍',
+      description: typeof project.description === 'string' ? project.description : '',
+      minPricePerTonne: project.minPricePerTonne,
+      maxPricePerTonne: project.maxPricePerTonne,
+    };
+  });
+
+  // The base currency is always available, whether or not the file lists it.
+  const currencies: CurrencyRate[] = (Array.isArray(catalogue.currencies) ? catalogue.currencies : [])
+    .filter((currency: Partial<CurrencyRate>): currency is CurrencyRate =>
+      isCurrencyCode(currency?.code) && isPrice(currency.rate) && currency.rate > 0 && currency.code !== catalogue.baseCurrency);
+
+  return {
+    name: typeof catalogue.name === 'string' && catalogue.name.trim() ? catalogue.name.trim() : 'Custom catalogue',
+    updated: typeof catalogue.updated === 'string' ? catalogue.updated : '',
+    baseCurrency: catalogue.baseCurrency,
+    currencies: [{ code: catalogue.baseCurrency, rate: 1 }, ...currencies],
+    projects,
+  };
+}
+
+/**
+ * Reads an offset catalogue from a JSON file the user picked.
+ * @param file The file
+ * @returns The catalogue
+ * @throws OffsetCatalogueError if the file isn't a usable catalogue
+ */
+export async function readOffsetCatalogueFile(file: File): Promise<OffsetCatalogue> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new OffsetCatalogueError(`${file.name} is not a JSON file.`);
+  }
+  return parseOffsetCatalogue(data);
+}
+
+/**
+ * Finds the currency prices should be shown in: the chosen one if the catalogue has it, otherwise its base currency.
+ * @param pricing The catalogue and the chosen currency
+ * @returns The currency and its rate from the base currency
+ */
+export function getPricingCurrency({ catalogue, currency }: OffsetPricing): CurrencyRate {
+  return catalogue.currencies.find(option => option.code === currency) ?? { code: catalogue.baseCurrency, rate: 1 };
+}
+
+/**
+ * Estimates what offsetting some emissions would cost with each kind of project in a catalogue.
+ * @param emissionsKg The emissions to offset, in kg CO₂
+ * @param pricing The catalogue and the currency to show costs in
+ * @returns One estimate per project, cheapest first
+ */
+export function estimateOffsetCosts(emissionsKg: number, pricing: OffsetPricing): OffsetEstimate[] {
+  const { rate } = getPricingCurrency(pricing);
+  const tonnes = emissionsKg / 1000;
+  return pricing.catalogue.projects
+    .map(project => ({
+      project,
+      tonnes,
+      minPricePerTonne: project.minPricePerTonne * rate,
+      maxPricePerTonne: project.maxPricePerTonne * rate,
+      minCost: tonnes * project.minPricePerTonne * rate,
+      maxCost: tonnes * project.maxPricePerTonne * rate,
+    }))
+    .sort((a, b) => a.minCost - b.minCost);
+}
+
+/**
+ * Finds the cheapest and dearest cost of offsetting some emissions across every project in a catalogue.
+ * @param emissionsKg The emissions to offset, in kg CO₂
+ * @param pricing The catalogue and the currency to show costs in
+ * @returns The lowest and highest cost
+ */
+export function getOffsetCostRange(emissionsKg: number, pricing: OffsetPricing): { min: number; max: number } {
+  const estimates = estimateOffsetCosts(emissionsKg, pricing);
+  return {
+    min: Math.min(...estimates.map(estimate => estimate.minCost)),
+    max: Math.max(...estimates.map(estimate => estimate.maxCost)),
+  };
+}
+
+/**
+ * Formats an amount of money, e.g. "NPR 1,352" or "$4.20". Small amounts keep their cents.
+ * @param amount The amount
+ * @param currency The ISO 4217 currency code
+ * @returns The formatted amount
+ */
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: amount < 100 ? 2 : 0,
+  }).format(amount);
+}
+
+/**
+ * Formats a range of costs, e.g. "$1.20–$3.50", or a single amount if both ends are the same.
+ * @param min The lowest cost
+ * @param max The highest cost
+ * @param currency The ISO 4217 currency code
+ * @returns The formatted range
+ */
+export function formatCostRange(min: number, max: number, currency: string): string {
+  const low = formatMoney(min, currency);
+  const high = formatMoney(max, currency);
+  return low === high ? low : `${low}–${high}`;
+}
+
+/**
+ * Gets the offset catalogue the user loaded in a previous session.
+ * @returns The catalogue, or null to use the bundled one
+ */
+export function getSavedOffsetCatalogue(): OffsetCatalogue | null {
+  const saved = loadFromStorage<unknown>(CATALOGUE_STORAGE_KEY, null);
+  if (saved === null) return null;
+  try {
+    return parseOffsetCatalogue(saved);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the offset catalogue the user loaded, for the next session.
+ * @param catalogue The catalogue, or null to go back to the bundled one
+ */
+export function saveOffsetCatalogue(catalogue: OffsetCatalogue | null): void {
+  saveToStorage(CATALOGUE_STORAGE_KEY, catalogue);
+}
+
+/**
+ * Gets the currency the user chose for offset costs in a previous session.
+ * @param fallback The currency to use if none was saved
+ * @returns The ISO 4217 currency code
+ */
+export function getSavedOffsetCurrency(fallback: string): string {
+  const currency = loadFromStorage<unknown>(CURRENCY_STORAGE_KEY, fallback);
+  return isCurrencyCode(currency) ? currency : fallback;
+}
+
+/**
+ * Saves the currency the user chose for offset costs, for the next session.
+ * @param currency The ISO 4217 currency code
+ */
+export function saveOffsetCurrency(currency: string): void {
+  saveToStorage(CURRENCY_STORAGE_KEY, currency);
+}
@@ -0,0 +1,47 @@
+// Reads JSON that is still arriving, such as a streamed AI answer, so it can be shown before it is complete.
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+// Closes any string, object or array left open at the end of a piece of JSON.
+const closeOpenJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(CLOSERS[char]);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    }
+  }
+  // A dangling backslash would escape the quote we add, so drop it.
+  const body = inString ? `${escaped ? text.slice(0, -1) : text}"` : text;
+  return body + stack.reverse().join('');
+}
+
+/**
+ * Parses the beginning of a JSON document as if it had been complete. An unfinished string keeps the text
+ * received so far; an unfinished key, number or keyword is dropped along with anything after the last comma.
+ * @param text The JSON received so far
+ * @returns The parsed value, or undefined if nothing usable has arrived yet
+ */
+export function parsePartialJson(text: string): unknown {
+  let end = text.length;
+  // Each failed attempt cuts back to the previous comma or opening bracket, so a few attempts are always enough.
+  for (let attempt = 0; attempt < 10 && end > 0; attempt++) {
+    try {
+      return JSON.parse(closeOpenJson(text.slice(0, end)));
+    } catch {
+      const cut = Math.max(text.lastIndexOf(',', end - 1), text.lastIndexOf('{', end - 1), text.lastIndexOf('[', end - 1));
+      if (cut < 0) return undefined;
+      end = text[cut] === ',' ? cut : cut + 1;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,30 @@
+import { FlightFetchResult } from '../types';
+import { LOW_CREDIT_THRESHOLD, MAX_POLL_INTERVAL_MS, POLL_INTERVAL_MS } from '../constants';
+
+/**
+ * Decides how long to wait before polling for flights again, based on how the last request went.
+ * - Success: the normal interval, doubled when the API credit balance is running low.
+ * - Rate limited: as long as the API asked us to wait, but never less than the normal interval.
+ * - Error: the normal interval doubled for every consecutive failure, up to a maximum.
+ * @param result The outcome of the last request
+ * @param consecutiveFailures How many requests in a row have failed, including this one
+ * @param baseIntervalMs The normal poll interval
+ * @returns The delay in milliseconds
+ */
+export function getNextPollDelay(
+  result: FlightFetchResult,
+  consecutiveFailures: number,
+  baseIntervalMs: number = POLL_INTERVAL_MS
+): number {
+  switch (result.status) {
+    case 'ok':
+    case 'empty':
+      return result.remainingCredits !== null && result.remainingCredits < LOW_CREDIT_THRESHOLD
+        ? baseIntervalMs * 2
+        : baseIntervalMs;
+    case 'rate-limited':
+      return Math.max(result.retryAfterSeconds * 1000, baseIntervalMs);
+    case 'error':
+      return Math.min(baseIntervalMs * 2 ** Math.max(consecutiveFailures - 1, 0), MAX_POLL_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,28 @@
+import { loadFromStorage, saveToStorage } from './storage';
+
+// Remembers the airports the user picked most recently, so they can be offered first next time.
+
+const STORAGE_KEY = 'recentAirports';
+
+// How many recent airports we keep.
+export const MAX_RECENT_AIRPORTS = 5;
+
+/**
+ * Gets the IATA codes of the most recently selected airports, newest first.
+ * @returns The IATA codes
+ */
+export function getRecentAirportCodes(): string[] {
+  const codes = loadFromStorage<unknown>(STORAGE_KEY, []);
+  return Array.isArray(codes) ? codes.filter((code): code is string => typeof code === 'string') : [];
+}
+
+/**
+ * Records that the user selected an airport, moving it to the front of the recent list.
+ * @param iata The IATA code of the selected airport
+ * @returns The updated list of IATA codes, newest first
+ */
+export function addRecentAirportCode(iata: string): string[] {
+  const codes = [iata, ...getRecentAirportCodes().filter(code => code !== iata)].slice(0, MAX_RECENT_AIRPORTS);
+  saveToStorage(STORAGE_KEY, codes);
+  return codes;
+}
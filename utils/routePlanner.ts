@@ -0,0 +1,155 @@
+import { Airport, EmissionOptions, FlightLeg, PlannedRoute } from '../types';
+import { calculateDistance, DEFAULT_EMISSION_OPTIONS } from './calculator';
+import { calculateLeg } from './itinerary';
+
+// The longest non-stop flights in service today are a little under 16,000 km,
+// so no leg in a planned route may be longer than this.
+export const MAX_LEG_DISTANCE = 16000; // km
+
+// A connection between two airports in the route graph.
+interface RouteEdge {
+  to: Airport;
+  distance: number; // great-circle km
+}
+
+// An adjacency list over the airport dataset, keyed by IATA code.
+export interface AirportGraph {
+  airports: Airport[];
+  edges: Map<string, RouteEdge[]>;
+}
+
+// Settings that limit which routes the planner will consider.
+export interface RoutePlannerOptions {
+  maxStops: number; // connections between origin and destination; 0 means direct only
+  maxDetourRatio: number; // e.g. 1.3 allows routes up to 30% longer than the direct distance
+  limit: number; // how many routes to return
+  emissionOptions: EmissionOptions;
+}
+
+export const DEFAULT_ROUTE_PLANNER_OPTIONS: RoutePlannerOptions = {
+  maxStops: 1,
+  maxDetourRatio: 1.5,
+  limit: 5,
+  emissionOptions: DEFAULT_EMISSION_OPTIONS,
+};
+
+// Shorthand for the great-circle distance between two airports.
+const distanceBetween = (a: Airport, b: Airport): number =>
+  calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+
+/**
+ * Builds a graph with an edge between every pair of airports that can be flown non-stop.
+ * @param airports The airports to include
+ * @param maxLegDistance The longest allowed non-stop leg in kilometers
+ * @returns The airport graph
+ */
+export function buildAirportGraph(airports: Airport[], maxLegDistance: number = MAX_LEG_DISTANCE): AirportGraph {
+  const edges = new Map<string, RouteEdge[]>(airports.map(airport => [airport.iata, []]));
+
+  for (let i = 0; i < airports.length; i++) {
+    for (let j = i + 1; j < airports.length; j++) {
+      const a = airports[i];
+      const b = airports[j];
+      const distance = distanceBetween(a, b);
+      if (distance <= maxLegDistance) {
+        edges.get(a.iata)!.push({ to: b, distance });
+        edges.get(b.iata)!.push({ to: a, distance });
+      }
+    }
+  }
+
+  return { airports, edges };
+}
+
+/**
+ * Returns a copy of the graph that also contains the given airports, connected to every airport in range.
+ * This lets the planner route from or to an airport (e.g. a small regional one) that isn't part of the graph.
+ * @param graph The airport graph
+ * @param endpoints The airports that must be present
+ * @returns The original graph if nothing was missing, otherwise an extended copy
+ */
+function withEndpoints(graph: AirportGraph, ...endpoints: Airport[]): AirportGraph {
+  const missing = endpoints.filter(airport => !graph.edges.has(airport.iata));
+  if (missing.length === 0) return graph;
+
+  const edges = new Map(graph.edges);
+  const airports = [...graph.airports];
+  for (const airport of missing) {
+    const newEdges: RouteEdge[] = [];
+    for (const other of airports) {
+      const distance = distanceBetween(airport, other);
+      if (distance > MAX_LEG_DISTANCE) continue;
+      newEdges.push({ to: other, distance });
+      edges.set(other.iata, [...(edges.get(other.iata) ?? []), { to: airport, distance }]);
+    }
+    edges.set(airport.iata, newEdges);
+    airports.push(airport);
+  }
+  return { airports, edges };
+}
+
+/**
+ * Finds the routes between two airports that emit the least CO2, ranked from lowest to highest.
+ * The search is a depth-first walk over the graph that prunes any partial route which can no longer
+ * reach the destination within the allowed detour, so only plausible connections are explored.
+ * @param graph The airport graph to search
+ * @param from The departure airport
+ * @param to The arrival airport
+ * @param options Stop, detour and result limits plus the emission assumptions
+ * @returns The direct great-circle leg (for comparison) and the best routes found
+ */
+export function findLowestEmissionRoutes(
+  graph: AirportGraph,
+  from: Airport,
+  to: Airport,
+  options: RoutePlannerOptions = DEFAULT_ROUTE_PLANNER_OPTIONS
+): { direct: FlightLeg; routes: PlannedRoute[] } {
+  const searchGraph = withEndpoints(graph, from, to);
+  const direct = calculateLeg(from, to, options.emissionOptions);
+  const maxDistance = direct.distance * options.maxDetourRatio;
+  const maxLegs = options.maxStops + 1;
+  const paths: Airport[][] = [];
+
+  const search = (path: Airport[], distance: number) => {
+    const current = path[path.length - 1];
+    if (current.iata === to.iata) {
+      paths.push(path);
+      return;
+    }
+    const legsSoFar = path.length - 1;
+    if (legsSoFar >= maxLegs) return;
+
+    for (const edge of searchGraph.edges.get(current.iata) ?? []) {
+      const isDestination = edge.to.iata === to.iata;
+      // Every leg after this one must still be able to end at the destination.
+      if (!isDestination && legsSoFar + 1 >= maxLegs) continue;
+      if (path.some(airport => airport.iata === edge.to.iata)) continue;
+
+      const remaining = isDestination ? 0 : distanceBetween(edge.to, to);
+      if (distance + edge.distance + remaining > maxDistance) continue;
+
+      search([...path, edge.to], distance + edge.distance);
+    }
+  };
+
+  search([from], 0);
+
+  const routes = paths.map(stops => {
+    const legs = stops.slice(1).map((stop, i) => calculateLeg(stops[i], stop, options.emissionOptions));
+    const totalDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const emissionsPerPassenger = legs.reduce((sum, leg) => sum + leg.emissions.total, 0);
+    const extraEmissions = emissionsPerPassenger - direct.emissions.total;
+    return {
+      stops,
+      legs,
+      totalDistance,
+      emissionsPerPassenger,
+      detourRatio: totalDistance / direct.distance,
+      extraEmissions,
+      extraEmissionsPercent: (extraEmissions / direct.emissions.total) * 100,
+    };
+  });
+
+  routes.sort((a, b) => a.emissionsPerPassenger - b.emissionsPerPassenger);
+  return { direct, routes: routes.slice(0, options.limit) };
+}
@@ -0,0 +1,34 @@
+// Small helpers for keeping user preferences in the browser's localStorage.
+// Storage can be unavailable (private browsing, disabled cookies) or hold data from an older version,
+// so reads fall back to a default value and writes never throw.
+
+// Every key the app writes is prefixed so it can't clash with other apps on the same origin.
+const KEY_PREFIX = 'ecofly:';
+
+/**
+ * Reads a JSON value from localStorage.
+ * @param key The storage key (without the app prefix)
+ * @param fallback The value to return when nothing (or nothing readable) is stored
+ * @returns The stored value, or the fallback
+ */
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(KEY_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Writes a JSON value to localStorage.
+ * @param key The storage key (without the app prefix)
+ * @param value The value to store
+ */
+export function saveToStorage<T>(key: string, value: T): void {
+  try {
+    window.localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save "${key}" to localStorage:`, error);
+  }
+}
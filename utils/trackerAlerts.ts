@@ -0,0 +1,93 @@
+import { FlightState, Geofence, TrackerAlert, TrackerAlertType, Watchlist } from '../types';
+import { isInsideGeofence } from './geofence';
+import { findMatchingWatchlists } from './watchlist';
+
+// What we remember about each aircraft between polls, so each alert is raised once rather than on every poll.
+export interface AlertWatchState {
+  watchlistIds: string[]; // watchlists it has already been announced for
+  fenceIds: string[]; // fences it was inside at the last poll
+  descendingFenceIds: string[]; // fences it was descending inside at the last poll
+  lastSeen: number; // ms since epoch
+}
+
+// The per-aircraft state of the alert checker, keyed by icao24.
+export type AlertWatchStore = Map<string, AlertWatchState>;
+
+// Sinking faster than this (m/s) inside a fence raises a descent alert.
+const DESCENT_ALERT_RATE = 2.5;
+
+// Aircraft not seen for this long are forgotten, so they are announced again if they come back.
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+/**
+ * Compares each aircraft with the previous poll and raises alerts for watched aircraft appearing, and for
+ * aircraft entering, leaving or descending inside a geofence. The store is not modified; a new one is returned.
+ * @param store What each aircraft was doing at the previous poll
+ * @param flights The flights from the latest poll
+ * @param watchlists The user's watchlists
+ * @param fences The user's geofences
+ * @param timestamp When the flights were received (ms since epoch)
+ * @returns The updated store, and the alerts raised by this poll
+ */
+export function detectTrackerAlerts(
+  store: AlertWatchStore,
+  flights: FlightState[],
+  watchlists: Watchlist[],
+  fences: Geofence[],
+  timestamp: number
+): { store: AlertWatchStore; alerts: TrackerAlert[] } {
+  const next: AlertWatchStore = new Map();
+  const alerts: TrackerAlert[] = [];
+
+  for (const flight of flights) {
+    if (flight.latitude === null || flight.longitude === null) continue;
+    const previous = store.get(flight.icao24);
+    const raise = (type: TrackerAlertType, subjectId: string, message: string) => {
+      alerts.push({
+        id: `${flight.icao24}-${type}-${subjectId}-${timestamp}`,
+        type,
+        icao24: flight.icao24,
+        callsign: flight.callsign,
+        message,
+        timestamp,
+      });
+    };
+
+    const watchlistIds = findMatchingWatchlists(flight, watchlists).map(watchlist => {
+      if (!previous?.watchlistIds.includes(watchlist.id)) {
+        raise('watchlist', watchlist.id, `${flight.callsign} (${watchlist.name}) is in the area.`);
+      }
+      return watchlist.id;
+    });
+
+    const fenceIds: string[] = [];
+    const descendingFenceIds: string[] = [];
+    for (const fence of fences) {
+      const inside = isInsideGeofence(flight.latitude, flight.longitude, fence);
+      const wasInside = previous?.fenceIds.includes(fence.id) ?? false;
+      // Aircraft first seen inside a fence were already there, so only movements between polls count.
+      if (previous && inside && !wasInside) raise('fence-enter', fence.id, `${flight.callsign} entered ${fence.name}.`);
+      if (previous && !inside && wasInside) raise('fence-exit', fence.id, `${flight.callsign} left ${fence.name}.`);
+      if (!inside) continue;
+      fenceIds.push(fence.id);
+
+      if (!flight.on_ground && (flight.vertical_rate ?? 0) < -DESCENT_ALERT_RATE) {
+        descendingFenceIds.push(fence.id);
+        if (!previous?.descendingFenceIds.includes(fence.id)) {
+          raise('fence-descent', fence.id, `${flight.callsign} is descending inside ${fence.name}.`);
+        }
+      }
+    }
+
+    next.set(flight.icao24, { watchlistIds, fenceIds, descendingFenceIds, lastSeen: timestamp });
+  }
+
+  // Keep aircraft that missed this poll for a while, in case they reappear.
+  for (const [icao24, state] of store) {
+    if (!next.has(icao24) && timestamp - state.lastSeen <= STALE_AFTER_MS) {
+      next.set(icao24, state);
+    }
+  }
+
+  return { store: next, alerts };
+}
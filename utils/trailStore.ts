@@ -0,0 +1,100 @@
+import { FlightState, FlightTrail } from '../types';
+import { calculateDistance } from './calculator';
+
+// The position history of every tracked aircraft, keyed by icao24.
+export type TrailStore = Map<string, FlightTrail>;
+
+// Limits that keep the in-memory history bounded.
+export interface TrailStoreOptions {
+  maxPointsPerTrail: number;
+  maxTrails: number;
+  staleAfterMs: number; // aircraft not seen for this long are dropped
+}
+
+export const DEFAULT_TRAIL_STORE_OPTIONS: TrailStoreOptions = {
+  maxPointsPerTrail: 120,
+  maxTrails: 2000,
+  staleAfterMs: 10 * 60 * 1000,
+};
+
+// Faster than any airliner. A bigger jump between two polls is a bad position report, not real flying,
+// so it isn't counted towards the distance flown.
+const MAX_PLAUSIBLE_SPEED_KMH = 1300;
+
+/**
+ * Adds the latest positions to the trail store and drops aircraft that haven't been seen for a while.
+ * The store is not modified; a new one is returned so it can be kept in React state.
+ * @param store The current trails
+ * @param flights The flights from the latest poll
+ * @param timestamp When the flights were received (ms since epoch)
+ * @param options Limits for the store
+ * @returns The updated trails, and the km flown by all aircraft since the previous poll
+ */
+export function updateTrails(
+  store: TrailStore,
+  flights: FlightState[],
+  timestamp: number,
+  options: TrailStoreOptions = DEFAULT_TRAIL_STORE_OPTIONS
+): { trails: TrailStore; distanceAdded: number } {
+  const next: TrailStore = new Map(store);
+  let distanceAdded = 0;
+
+  for (const flight of flights) {
+    if (flight.latitude === null || flight.longitude === null) continue;
+    const point = {
+      latitude: flight.latitude,
+      longitude: flight.longitude,
+      altitude: flight.baro_altitude ?? flight.geo_altitude,
+      timestamp,
+    };
+
+    const trail = next.get(flight.icao24);
+    if (!trail) {
+      next.set(flight.icao24, { icao24: flight.icao24, callsign: flight.callsign, points: [point], lastSeen: timestamp, distanceFlown: 0 });
+      continue;
+    }
+
+    const last = trail.points[trail.points.length - 1];
+    // A parked aircraft reports the same position every time; there's no need to store it again.
+    if (last.latitude === point.latitude && last.longitude === point.longitude) {
+      next.set(flight.icao24, { ...trail, callsign: flight.callsign, lastSeen: timestamp });
+      continue;
+    }
+
+    const step = calculateDistance(last.latitude, last.longitude, point.latitude, point.longitude);
+    const elapsedHours = (timestamp - last.timestamp) / 3_600_000;
+    const isPlausible = elapsedHours > 0 && step / elapsedHours <= MAX_PLAUSIBLE_SPEED_KMH;
+    if (isPlausible) distanceAdded += step;
+
+    next.set(flight.icao24, {
+      ...trail,
+      callsign: flight.callsign,
+      points: [...trail.points, point].slice(-options.maxPointsPerTrail),
+      lastSeen: timestamp,
+      distanceFlown: trail.distanceFlown + (isPlausible ? step : 0),
+    });
+  }
+
+  return { trails: pruneTrails(next, timestamp, options), distanceAdded };
+}
+
+/**
+ * Removes stale aircraft, then the least recently seen ones if the store is still over its size limit.
+ * @param store The trails (modified in place)
+ * @param now The current time (ms since epoch)
+ * @param options Limits for the store
+ * @returns The same store, for chaining
+ */
+export function pruneTrails(store: TrailStore, now: number, options: TrailStoreOptions = DEFAULT_TRAIL_STORE_OPTIONS): TrailStore {
+  for (const [icao24, trail] of store) {
+    if (now - trail.lastSeen > options.staleAfterMs) store.delete(icao24);
+  }
+
+  if (store.size > options.maxTrails) {
+    const oldestFirst = [...store.values()].sort((a, b) => a.lastSeen - b.lastSeen);
+    for (const trail of oldestFirst.slice(0, store.size - options.maxTrails)) {
+      store.delete(trail.icao24);
+    }
+  }
+  return store;
+}
@@ -0,0 +1,149 @@
+import { Airport, CarbonBudgets, TripLogEntry, TripPurpose, TripResult, TripYearSummary } from '../types';
+import { CABIN_CLASSES, TRIP_PURPOSES } from '../constants';
+import { AirportIndex, findAirportByIata } from './airportSearch';
+import { calculateTrip, getOutboundLegs } from './itinerary';
+import { loadFromStorage, saveToStorage } from './storage';
+
+// Helpers for the personal trip log and the yearly carbon budget.
+
+const LOG_STORAGE_KEY = 'tripLog';
+const BUDGET_STORAGE_KEY = 'carbonBudgets';
+
+/**
+ * Formats a date as YYYY-MM-DD in the user's time zone, the format used by trip log entries and date inputs.
+ * @param date The date (defaults to now)
+ * @returns The date string
+ */
+export function toDateString(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Creates a trip log entry from a calculated trip.
+ * @param trip The calculated trip
+ * @param date The day the trip starts, as YYYY-MM-DD
+ * @param purpose Why the trip is made
+ * @param notes Anything else the user wants to remember
+ * @returns The new entry
+ */
+export function createTripLogEntry(trip: TripResult, date: string, purpose: TripPurpose, notes: string = ''): TripLogEntry {
+  const outboundLegs = getOutboundLegs(trip);
+  const { cabinClass, radiativeForcingMultiplier } = outboundLegs[0].emissions;
+  return {
+    id: `trip-${Date.now().toString(36)}`,
+    date,
+    stops: [outboundLegs[0].from, ...outboundLegs.map(leg => leg.to)].map(airport => airport.iata),
+    roundTrip: trip.roundTrip,
+    passengers: trip.passengers,
+    cabinClass,
+    includeRadiativeForcing: radiativeForcingMultiplier > 1,
+    distance: trip.totalDistance,
+    emissions: trip.totalEmissions,
+    purpose,
+    notes,
+  };
+}
+
+/**
+ * Works out an edited entry's distance and emissions again, after its cabin, passengers or route changed.
+ * @param entry The edited entry
+ * @param index The airport search index, to look up the entry's airports
+ * @returns The entry with fresh figures, or unchanged if one of its airports is no longer in the dataset
+ */
+export function recalculateTripLogEntry(entry: TripLogEntry, index: AirportIndex): TripLogEntry {
+  const stops = entry.stops
+    .map(iata => findAirportByIata(index, iata))
+    .filter((airport): airport is Airport => airport !== undefined);
+  if (stops.length !== entry.stops.length || stops.length < 2) return entry;
+
+  const trip = calculateTrip(
+    { stops, roundTrip: entry.roundTrip, passengers: entry.passengers },
+    { cabinClass: entry.cabinClass, includeRadiativeForcing: entry.includeRadiativeForcing }
+  );
+  return { ...entry, distance: trip.totalDistance, emissions: trip.totalEmissions };
+}
+
+/**
+ * Adds up the emissions of the trips logged for one calendar year.
+ * @param entries The trip log
+ * @param year The year, e.g. 2026
+ * @param today Today's date as YYYY-MM-DD; later trips count as planned
+ * @returns The year's totals, split into trips taken and trips planned, and by month
+ */
+export function summarizeTripYear(entries: TripLogEntry[], year: number, today: string = toDateString()): TripYearSummary {
+  const summary: TripYearSummary = { taken: 0, planned: 0, total: 0, byMonth: new Array(12).fill(0) };
+  for (const entry of entries) {
+    if (!entry.date.startsWith(`${year}-`)) continue;
+    if (entry.date > today) summary.planned += entry.emissions;
+    else summary.taken += entry.emissions;
+    summary.total += entry.emissions;
+    summary.byMonth[Number(entry.date.slice(5, 7)) - 1] += entry.emissions;
+  }
+  return summary;
+}
+
+/**
+ * Finds the planned trips that take their year over its carbon budget, counting trips in date order.
+ * @param entries The trip log
+ * @param budgets The yearly budgets
+ * @param today Today's date as YYYY-MM-DD
+ * @returns The ids of the planned trips that go over budget
+ */
+export function findOverBudgetTrips(entries: TripLogEntry[], budgets: CarbonBudgets, today: string = toDateString()): Set<string> {
+  const overBudget = new Set<string>();
+  const runningTotals = new Map<string, number>();
+  for (const entry of [...entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    const year = entry.date.slice(0, 4);
+    const total = (runningTotals.get(year) ?? 0) + entry.emissions;
+    runningTotals.set(year, total);
+    if (entry.date > today && budgets[year] !== undefined && total > budgets[year]) overBudget.add(entry.id);
+  }
+  return overBudget;
+}
+
+// Checks that a value read from storage looks like a trip log entry.
+const isTripLogEntry = (value: unknown): value is TripLogEntry => {
+  const entry = value as TripLogEntry;
+  return typeof entry?.id === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(entry.date) &&
+    Array.isArray(entry.stops) && typeof entry.emissions === 'number' &&
+    CABIN_CLASSES.some(cabin => cabin.cabinClass === entry.cabinClass) &&
+    TRIP_PURPOSES.some(purpose => purpose.purpose === entry.purpose);
+};
+
+/**
+ * Gets the trip log saved in a previous session.
+ * @returns The saved entries
+ */
+export function getSavedTripLog(): TripLogEntry[] {
+  const entries = loadFromStorage<unknown>(LOG_STORAGE_KEY, []);
+  return Array.isArray(entries) ? entries.filter(isTripLogEntry) : [];
+}
+
+/**
+ * Saves the trip log for the next session.
+ * @param entries The entries to save
+ */
+export function saveTripLog(entries: TripLogEntry[]): void {
+  saveToStorage(LOG_STORAGE_KEY, entries);
+}
+
+/**
+ * Gets the yearly carbon budgets saved in a previous session.
+ * @returns The saved budgets
+ */
+export function getSavedCarbonBudgets(): CarbonBudgets {
+  const budgets = loadFromStorage<unknown>(BUDGET_STORAGE_KEY, {});
+  if (typeof budgets !== 'object' || budgets === null) return {};
+  return Object.fromEntries(
+    Object.entries(budgets).filter(([year, kg]) => /^\d{4}$/.test(year) && typeof kg === 'number' && kg > 0)
+  );
+}
+
+/**
+ * Saves the yearly carbon budgets for the next session.
+ * @param budgets The budgets to save
+ */
+export function saveCarbonBudgets(budgets: CarbonBudgets): void {
+  saveToStorage(BUDGET_STORAGE_KEY, budgets);
+}
@@ -0,0 +1,123 @@
+import { CalculatorUrlState, MapUrlState, MapView } from '../types';
+import { CABIN_CLASSES } from '../constants';
+import { DEFAULT_EMISSION_OPTIONS } from './calculator';
+import { MAX_ITINERARY_STOPS } from './itinerary';
+
+// Keeps the calculator and the live map in the page address, so a view can be shared as a link,
+// e.g. "?route=KTM-LHR&rt=1&cabin=business&region=nepal&map=27.7000,85.3000,7&flight=70c0c1".
+// Each calculation adds a browser history entry, so back and forward step through earlier calculations.
+// Map, filter and sort changes replace the current entry instead, so panning around doesn't fill the history.
+
+// The biggest passenger count the calculator accepts.
+const MAX_PASSENGERS = 500;
+
+/**
+ * Sets some query parameters of the page address, leaving the others alone.
+ * Nothing happens if the address wouldn't change, so repeating a calculation doesn't add a history entry.
+ * @param values The new value of each parameter, or null to remove it
+ * @param mode Whether to add a history entry ("push") or change the current one ("replace")
+ */
+function updateUrlParams(values: Record<string, string | null>, mode: 'push' | 'replace'): void {
+  const url = new URL(window.location.href);
+  for (const [name, value] of Object.entries(values)) {
+    if (value === null) url.searchParams.delete(name);
+    else url.searchParams.set(name, value);
+  }
+  // Commas are safe in a query string, and easier to read than "%2C" in a shared link.
+  url.search = url.searchParams.toString().replace(/%2C/g, ',');
+  if (url.href === window.location.href) return;
+  if (mode === 'push') window.history.pushState(null, '', url);
+  else window.history.replaceState(window.history.state, '', url);
+}
+
+/**
+ * Reads the calculation in a page address.
+ * @param search The query string, e.g. "?route=KTM-DEL-LHR&pax=2"
+ * @returns The calculation, or null if the address has no usable route
+ */
+export function readCalculatorState(search: string = window.location.search): CalculatorUrlState | null {
+  const params = new URLSearchParams(search);
+  const route = (params.get('route') ?? '').toUpperCase().split('-').filter(code => code !== '');
+  const isValidRoute = route.length >= 2
+    && route.length <= MAX_ITINERARY_STOPS
+    && route.every(code => /^[A-Z0-9]{3}$/.test(code))
+    && route.every((code, i) => i === 0 || code !== route[i - 1]);
+  if (!isValidRoute) return null;
+
+  const passengers = Math.floor(Number(params.get('pax')));
+  const cabin = params.get('cabin');
+  const cabinClass = CABIN_CLASSES.find(option => option.cabinClass === cabin)?.cabinClass;
+  return {
+    route,
+    roundTrip: params.get('rt') === '1',
+    passengers: passengers >= 1 && passengers <= MAX_PASSENGERS ? passengers : 1,
+    emissionOptions: {
+      cabinClass: cabinClass ?? DEFAULT_EMISSION_OPTIONS.cabinClass,
+      includeRadiativeForcing: params.has('rf') ? params.get('rf') === '1' : DEFAULT_EMISSION_OPTIONS.includeRadiativeForcing,
+    },
+  };
+}
+
+/**
+ * Puts a calculation in the page address, or removes it.
+ * Settings left at their defaults are left out, to keep links short.
+ * @param state The calculation, or null for an empty calculator
+ * @param mode Whether to add a history entry ("push") or change the current one ("replace")
+ */
+export function writeCalculatorState(state: CalculatorUrlState | null, mode: 'push' | 'replace'): void {
+  const { cabinClass, includeRadiativeForcing } = state?.emissionOptions ?? DEFAULT_EMISSION_OPTIONS;
+  updateUrlParams({
+    route: state ? state.route.join('-') : null,
+    rt: state?.roundTrip ? '1' : null,
+    pax: state && state.passengers > 1 ? String(state.passengers) : null,
+    cabin: cabinClass !== DEFAULT_EMISSION_OPTIONS.cabinClass ? cabinClass : null,
+    rf: includeRadiativeForcing !== DEFAULT_EMISSION_OPTIONS.includeRadiativeForcing ? (includeRadiativeForcing ? '1' : '0') : null,
+  }, mode);
+}
+
+/**
+ * Reads a map view written as "latitude,longitude,zoom".
+ * @param text The parameter value
+ * @returns The view, or null if it can't be read
+ */
+function parseMapView(text: string | null): MapView | null {
+  const [lat, lng, zoom] = (text ?? '').split(',').map(Number);
+  const isValid = Number.isFinite(lat) && Number.isFinite(lng) && Number.isFinite(zoom)
+    && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && zoom >= 0 && zoom <= 20;
+  return isValid ? { lat, lng, zoom } : null;
+}
+
+/**
+ * Reads the live tracker view in a page address. The region and sort column are returned as written,
+ * so the tracker should check them against the ones it knows.
+ * @param search The query string, e.g. "?region=nepal&q=RA-&sort=velocity&dir=desc"
+ * @returns The view; anything missing is null (or an empty filter)
+ */
+export function readMapState(search: string = window.location.search): MapUrlState {
+  const params = new URLSearchParams(search);
+  const sortKey = params.get('sort');
+  const flightId = params.get('flight')?.trim().toLowerCase();
+  return {
+    regionId: params.get('region'),
+    view: parseMapView(params.get('map')),
+    filter: params.get('q') ?? '',
+    sort: sortKey ? { key: sortKey, direction: params.get('dir') === 'desc' ? 'descending' : 'ascending' } : null,
+    flightId: flightId && /^[0-9a-f]{6}$/.test(flightId) ? flightId : null,
+  };
+}
+
+/**
+ * Puts the live tracker view in the page address, replacing the current history entry.
+ * @param state The view
+ */
+export function writeMapState(state: MapUrlState): void {
+  updateUrlParams({
+    region: state.regionId,
+    // Four decimal places is about 10 m, plenty for a map view.
+    map: state.view ? `${state.view.lat.toFixed(4)},${state.view.lng.toFixed(4)},${state.view.zoom}` : null,
+    q: state.filter || null,
+    sort: state.sort?.key ?? null,
+    dir: state.sort?.direction === 'descending' ? 'desc' : null,
+    flight: state.flightId,
+  }, 'replace');
+}
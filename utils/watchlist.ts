@@ -0,0 +1,61 @@
+import { FlightState, Watchlist } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const STORAGE_KEY = 'watchlists';
+
+/**
+ * Turns a callsign pattern such as "RNA*" or "QTR3?" into a case-insensitive regular expression.
+ * @param pattern The pattern, where * matches anything and ? matches one character
+ * @returns The regular expression
+ */
+export function callsignPatternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+/**
+ * Checks whether an aircraft is on a watchlist.
+ * @param flight The aircraft
+ * @param watchlist The watchlist
+ * @returns True if its callsign, icao24 or origin country matches any entry
+ */
+export function matchesWatchlist(flight: FlightState, watchlist: Watchlist): boolean {
+  const callsign = flight.callsign.trim();
+  return watchlist.callsignPatterns.some(pattern => callsignPatternToRegExp(pattern).test(callsign)) ||
+    watchlist.icao24s.some(icao24 => icao24.trim().toLowerCase() === flight.icao24.toLowerCase()) ||
+    watchlist.countries.some(country => country.trim().toLowerCase() === flight.origin_country.toLowerCase());
+}
+
+/**
+ * Finds the watchlists an aircraft is on.
+ * @param flight The aircraft
+ * @param watchlists Every watchlist
+ * @returns The matching watchlists
+ */
+export function findMatchingWatchlists(flight: FlightState, watchlists: Watchlist[]): Watchlist[] {
+  return watchlists.filter(watchlist => matchesWatchlist(flight, watchlist));
+}
+
+// Checks that something read back from storage looks like a watchlist.
+const isWatchlist = (value: unknown): value is Watchlist => {
+  const list = value as Watchlist;
+  return typeof list?.id === 'string' && typeof list.name === 'string' &&
+    Array.isArray(list.callsignPatterns) && Array.isArray(list.icao24s) && Array.isArray(list.countries);
+};
+
+/**
+ * Gets the watchlists saved in a previous session.
+ * @returns The saved watchlists
+ */
+export function getSavedWatchlists(): Watchlist[] {
+  const lists = loadFromStorage<unknown>(STORAGE_KEY, []);
+  return Array.isArray(lists) ? lists.filter(isWatchlist) : [];
+}
+
+/**
+ * Saves the watchlists for the next session.
+ * @param watchlists The watchlists to save
+ */
+export function saveWatchlists(watchlists: Watchlist[]): void {
+  saveToStorage(STORAGE_KEY, watchlists);
+}
@@ -0,0 +1,153 @@
+import { SheetRow } from '../types';
+
+// A small reader for the first worksheet of an Excel .xlsx file, so spreadsheets can be imported without a library.
+// An .xlsx file is a zip archive of XML files: we unzip the parts we need with the browser's DecompressionStream
+// and read them with DOMParser. Formulas are read as their last calculated value.
+
+// Zip record signatures.
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Zip compression methods.
+const STORED = 0;
+const DEFLATED = 8;
+
+// An error for files that aren't readable spreadsheets.
+export class XlsxFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxFormatError';
+  }
+}
+
+/**
+ * Lists the files in a zip archive, with a way to read each one.
+ * @param data The archive
+ * @returns A map from each file's path to a function that reads its text
+ */
+function readZipEntries(data: ArrayBuffer): Map<string, () => Promise<string>> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+
+  // The central directory is listed at the end of the file, after an optional comment of up to 64 KB.
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new XlsxFormatError('This file is not an .xlsx spreadsheet.');
+
+  const entries = new Map<string, () => Promise<string>>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new XlsxFormatError('The spreadsheet is damaged.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new XlsxFormatError('The spreadsheet is damaged.');
+      // The local header's name and extra field can differ in length from the central directory's.
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const content = bytes.subarray(start, start + compressedSize);
+      if (method === STORED) return decoder.decode(content);
+      if (method !== DEFLATED) throw new XlsxFormatError('The spreadsheet uses an unsupported compression method.');
+      const stream = new Blob([content]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// Finds elements by name whatever namespace prefix the file uses.
+const elements = (parent: Document | Element, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+// Reads an attribute by its local name, e.g. "id" for r:id.
+const attribute = (element: Element, localName: string): string | null =>
+  Array.from(element.attributes).find(attr => attr.localName === localName)?.value ?? null;
+
+/**
+ * Converts a cell reference's column letters to a zero-based column number, e.g. "C7" to 2.
+ * @param reference The cell reference
+ * @returns The column number
+ */
+export function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Reads the first worksheet of an .xlsx file into rows of text, like parseCsvRows does for CSV files.
+ * Numbers (including dates, which Excel stores as day numbers) are returned as they are stored.
+ * @param data The contents of the .xlsx file
+ * @returns An array of rows, each with its row number as Excel shows it and its cell values
+ */
+export async function readXlsxRows(data: ArrayBuffer): Promise<SheetRow[]> {
+  const entries = readZipEntries(data);
+  const parser = new DOMParser();
+  const readXml = async (path: string): Promise<Document | null> => {
+    const read = entries.get(path);
+    return read ? parser.parseFromString(await read(), 'application/xml') : null;
+  };
+
+  // Find the file of the first sheet through the workbook's relationships.
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readXml('xl/workbook.xml');
+  const relationships = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  if (firstSheet && relationships) {
+    const id = attribute(firstSheet, 'id');
+    const target = elements(relationships, 'Relationship').find(rel => rel.getAttribute('Id') === id)?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new XlsxFormatError('The spreadsheet has no worksheet.');
+
+  // Text cells usually point into a shared list of strings. Rich text is split into runs, so we join their pieces.
+  const sharedStringsXml = await readXml('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? elements(sharedStringsXml, 'si').map(si => elements(si, 't').map(t => t.textContent ?? '').join(''))
+    : [];
+
+  const rows: SheetRow[] = [];
+  let previousLine = 0;
+  for (const rowElement of elements(sheet, 'row')) {
+    // Empty rows are usually left out of the file, so the row number comes from its "r" attribute when it has one.
+    const line = Number(rowElement.getAttribute('r')) || previousLine + 1;
+    previousLine = line;
+    const row: string[] = [];
+    for (const cell of elements(rowElement, 'c')) {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : row.length;
+      const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let text: string;
+      switch (cell.getAttribute('t')) {
+        case 's': text = sharedStrings[Number(value)] ?? ''; break;
+        case 'inlineStr': text = elements(cell, 't').map(t => t.textContent ?? '').join(''); break;
+        case 'b': text = value === '1' ? 'TRUE' : 'FALSE'; break;
+        case 'e': text = ''; break; // formula errors such as #N/A
+        default: text = value;
+      }
+
+      // Empty cells are often left out, so fill any gap before this one.
+      while (row.length < column) row.push('');
+      row[column] = text;
+    }
+    // Skip blank rows, as parseCsv does.
+    if (row.some(cell => cell.trim() !== '')) rows.push({ line, cells: row });
+  }
+  return rows;
+}
@@ -1,18 +1,59 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Where the browser asks for an OpenSky access token.
+const OPENSKY_TOKEN_PROXY_PATH = '/api/opensky-token';
+const OPENSKY_TOKEN_URL = 'https://auth.opensky-network.org/auth/realms/opensky-network/protocol/openid-connect/token';
+
+// Exchanges the OpenSky client credentials for an access token on the dev and preview servers,
+// so the client secret stays on the server and never reaches the browser bundle.
+function openSkyTokenProxy(clientId: string | undefined, clientSecret: string | undefined): Plugin {
+  const handle = async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (req.url !== OPENSKY_TOKEN_PROXY_PATH || req.method !== 'POST' || !clientId || !clientSecret) return next();
+    try {
+      const response = await fetch(OPENSKY_TOKEN_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ grant_type: 'client_credentials', client_id: clientId, client_secret: clientSecret }),
+      });
+      // Pass on only the token and its lifetime.
+      const body = response.ok ? await response.json() : null;
+      res.statusCode = response.status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body ? { access_token: body.access_token, expires_in: body.expires_in } : { error: 'OpenSky rejected the client credentials.' }));
+    } catch {
+      res.statusCode = 502;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Could not reach the OpenSky login server.' }));
+    }
+  };
+  return {
+    name: 'opensky-token-proxy',
+    configureServer: server => { server.middlewares.use(handle); },
+    configurePreviewServer: server => { server.middlewares.use(handle); },
+  };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const hasOpenSkyCredentials = !!(env.OPENSKY_CLIENT_ID && env.OPENSKY_CLIENT_SECRET);
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), openSkyTokenProxy(env.OPENSKY_CLIENT_ID, env.OPENSKY_CLIENT_SECRET)],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Only the proxy's address is given to the browser, never the OpenSky credentials themselves.
+        'process.env.OPENSKY_TOKEN_URL': JSON.stringify(hasOpenSkyCredentials ? OPENSKY_TOKEN_PROXY_PATH : ''),
+        'process.env.DUMP1090_URL': JSON.stringify(env.DUMP1090_URL),
+        'process.env.LOCAL_LLM_URL': JSON.stringify(env.LOCAL_LLM_URL),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL),
+        'process.env.LOCAL_LLM_API_KEY': JSON.stringify(env.LOCAL_LLM_API_KEY)
       },
       resolve: {
         alias: {